@@ -3,26 +3,56 @@
  *
  * Plain-Markdown memory system with semantic search via qmd.
  * Core memory tools (write/read/scratchpad) work without qmd installed.
- * The memory_search tool requires qmd for keyword, semantic, and hybrid search.
+ * memory_search uses qmd for keyword, semantic, and hybrid search; without qmd it
+ * falls back to a built-in BM25 keyword index over the same files.
  *
  * Layout (under ~/.pi/agent/memory/):
  *   MEMORY.md              — curated long-term memory (decisions, preferences, durable facts)
  *   SCRATCHPAD.md           — checklist of things to keep in mind / fix later
- *   daily/YYYY-MM-DD.md    — daily append-only log (today + yesterday loaded at session start)
+ *   daily/YYYY-MM-DD.md    — daily append-only log (today and a window of earlier days are injected)
+ *   .history/              — snapshots of previous file contents, taken before every write
+ *
+ * Project scope: when the session cwd is inside a git repo (or below a `.pi-memory/`
+ * marker directory), the same layout also lives in <project-root>/.pi-memory/. A .pi-memory/ that
+ * pi-memory creates gets a .gitignore, so project memory stays out of the project's git.
+ * Tools take `scope: "global" | "project"`; injection merges both scopes.
  *
  * Tools:
  *   memory_write   — write to MEMORY.md or daily log
  *   memory_read    — read any memory file or list daily logs
+ *   memory_edit    — replace one entry (by ID or unique text) in MEMORY.md or a daily log
+ *   memory_delete  — remove one entry (by ID or unique text)
+ *   memory_restore — list, diff or roll back to snapshots in .history/ (also: /memory-undo)
  *   scratchpad     — add/check/uncheck/clear items on the scratchpad checklist
- *   memory_search  — search across all memory files via qmd (keyword, semantic, or deep)
+ *   memory_search  — search across all memory files via qmd (keyword, semantic, or deep) or the built-in index
+ *   memory_history — git log (and diffs) for a memory file or a single entry, when git mode is on
+ *
+ * Git mode (`"git": { "enabled": true }`): the global memory dir is a git repo and every write
+ * (tools, handoffs, exit summaries) is committed with the tool, action, file, session and entry
+ * as trailers. Without a git binary, writes still work and are simply not committed.
+ * With `git.remote` set, /memory-sync (or `git.autoSync` at session start/end) pulls and pushes;
+ * MEMORY.md, daily logs and the scratchpad merge entry by entry instead of leaving conflict markers.
+ *
+ * Writes: every read-modify-write holds `<file>.lock` and replaces the file atomically (temp file + rename),
+ * so concurrent pi sessions sharing a memory dir don't drop each other's entries.
+ *
+ * Entries: every write starts with a metadata comment `<!-- <timestamp> [<session>] id:<id> -->`;
+ * the short ID is stable, so later tools can point at a single entry.
  *
  * Context injection:
- *   - MEMORY.md + SCRATCHPAD.md + today's + yesterday's daily logs injected into every turn
+ *   - MEMORY.md + SCRATCHPAD.md + a window of daily logs injected into every turn: today plus
+ *     `dailyWindow.days - 1` earlier days (the last days with a log, or working days, per `mode`),
+ *     each earlier day getting `decay` times the share of the day after it
+ *   - budgeted in tokens (estimated; pluggable via setTokenEstimator) as a fraction of the model's context window
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import { execFile } from "node:child_process";
+import { createHash, randomBytes } from "node:crypto";
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
 import { complete, type Message, StringEnum } from "@mariozechner/pi-ai";
 import {
 	convertToLlm,
@@ -31,7 +61,8 @@ import {
 	type SessionEntry,
 	serializeConversation,
 } from "@mariozechner/pi-coding-agent";
-import { Type } from "@sinclair/typebox";
+import { type Static, Type } from "@sinclair/typebox";
+import { Value, type ValueError } from "@sinclair/typebox/value";
 
 // ---------------------------------------------------------------------------
 // Paths (mutable for testing via _setBaseDir / _resetBaseDir)
@@ -57,31 +88,265 @@ export function _resetBaseDir() {
 	_setBaseDir(DEFAULT_MEMORY_DIR);
 }
 
+// ---------------------------------------------------------------------------
+// Scopes (global memory dir + per-project memory dir detected from cwd)
+// ---------------------------------------------------------------------------
+
+export type MemoryScope = "global" | "project";
+
+export interface ScopePaths {
+	scope: MemoryScope;
+	dir: string;
+	memoryFile: string;
+	scratchpadFile: string;
+	dailyDir: string;
+}
+
+export interface ProjectInfo {
+	root: string;
+	name: string;
+	memoryDir: string;
+}
+
+/** Directory that marks a project root and holds its memory files. */
+const PROJECT_MARKER = ".pi-memory";
+const PROJECT_GITIGNORE =
+	"# Written by pi-memory: project memory stays out of git. Delete this file to commit it with the project.\n*\n";
+
+let activeProject: ProjectInfo | null = null;
+
+function isDirectory(p: string): boolean {
+	try {
+		return fs.statSync(p).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+function isInsideDir(child: string, parent: string): boolean {
+	const rel = path.relative(parent, child);
+	return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+/**
+ * Find the project root for a working directory: the nearest ancestor with a
+ * `.pi-memory/` marker directory, otherwise the nearest git root.
+ */
+export function detectProjectRoot(cwd: string): string | null {
+	let gitRoot: string | null = null;
+	let dir = path.resolve(cwd);
+	while (true) {
+		if (isDirectory(path.join(dir, PROJECT_MARKER))) return dir;
+		if (!gitRoot && fs.existsSync(path.join(dir, ".git"))) gitRoot = dir;
+		const parent = path.dirname(dir);
+		if (parent === dir) break;
+		dir = parent;
+	}
+	return gitRoot;
+}
+
+export function projectInfoForRoot(root: string): ProjectInfo {
+	return { root, name: path.basename(root), memoryDir: path.join(root, PROJECT_MARKER) };
+}
+
+/** Detect and activate the project scope for a session cwd. Returns null when there is none. */
+export function activateProjectScope(cwd: string | undefined): ProjectInfo | null {
+	activeProject = null;
+	if (!cwd || process.env.PI_MEMORY_NO_PROJECT === "1") return null;
+	const root = detectProjectRoot(cwd);
+	// The global memory dir may itself be a git repo — never treat it as a project.
+	if (!root || isInsideDir(root, MEMORY_DIR)) return null;
+	activeProject = projectInfoForRoot(root);
+	return activeProject;
+}
+
+/** Set the active project root directly, or clear it with null (for testing). */
+export function _setProjectRoot(root: string | null) {
+	activeProject = root ? projectInfoForRoot(root) : null;
+}
+
+export function getActiveProject(): ProjectInfo | null {
+	return activeProject;
+}
+
+/** Resolve file paths for a scope. Returns null for "project" when no project is active. */
+export function getScopePaths(scope?: "global"): ScopePaths;
+export function getScopePaths(scope?: MemoryScope): ScopePaths | null;
+export function getScopePaths(scope: MemoryScope = "global"): ScopePaths | null {
+	if (scope === "project") {
+		if (!activeProject) return null;
+		const dir = activeProject.memoryDir;
+		return {
+			scope,
+			dir,
+			memoryFile: path.join(dir, "MEMORY.md"),
+			scratchpadFile: path.join(dir, "SCRATCHPAD.md"),
+			dailyDir: path.join(dir, "daily"),
+		};
+	}
+	return {
+		scope: "global",
+		dir: MEMORY_DIR,
+		memoryFile: MEMORY_FILE,
+		scratchpadFile: SCRATCHPAD_FILE,
+		dailyDir: DAILY_DIR,
+	};
+}
+
+/** Scopes that are readable in this session, most specific first. */
+export function activeScopes(): ScopePaths[] {
+	const scopes: ScopePaths[] = [];
+	const project = getScopePaths("project");
+	if (project) scopes.push(project);
+	scopes.push(getScopePaths("global"));
+	return scopes;
+}
+
+/** Scope that session-level entries (handoffs, exit summaries) are written to. */
+function sessionScope(): MemoryScope {
+	return activeProject ? "project" : "global";
+}
+
+function noProjectScopeMessage(): string {
+	return "No project scope is active for this session. Project memory needs a git repository or a .pi-memory/ directory at the project root.";
+}
+
+/** Human-readable file label, e.g. "MEMORY.md" or "project MEMORY.md (my-repo)". */
+function scopeFileLabel(paths: ScopePaths, fileName: string): string {
+	if (paths.scope === "project" && activeProject) {
+		return `project ${fileName} (${activeProject.name})`;
+	}
+	return fileName;
+}
+
 // ---------------------------------------------------------------------------
 // Utilities
 // ---------------------------------------------------------------------------
 
-export function ensureDirs() {
-	fs.mkdirSync(MEMORY_DIR, { recursive: true });
-	fs.mkdirSync(DAILY_DIR, { recursive: true });
+export function ensureDirs(scope: MemoryScope = "global") {
+	const paths = getScopePaths(scope);
+	if (!paths) return;
+	// A project memory dir we create (rather than a marker dir the user made) keeps itself out of the
+	// project's git, so handoffs and exit summaries don't show up as untracked files.
+	if (paths.scope === "project" && !fs.existsSync(paths.dir)) {
+		fs.mkdirSync(paths.dir, { recursive: true });
+		fs.writeFileSync(path.join(paths.dir, ".gitignore"), PROJECT_GITIGNORE, "utf-8");
+	}
+	fs.mkdirSync(paths.dir, { recursive: true });
+	fs.mkdirSync(paths.dailyDir, { recursive: true });
+}
+
+/** Source of "now" for every timestamp and day computation. Swapped in tests to simulate other days. */
+export type Clock = () => Date;
+const systemClock: Clock = () => new Date();
+let clock: Clock = systemClock;
+
+/** Override the clock (for testing). */
+export function _setClockForTest(fn: Clock) {
+	clock = fn;
+}
+
+/** Reset the clock to the system time (for testing). */
+export function _resetClockForTest() {
+	clock = systemClock;
+}
+
+interface WallClock {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock time of `date` in `timeZone` (IANA name; "" = system local). */
+function wallClock(date: Date, timeZone: string): WallClock {
+	let format = wallClockFormats.get(timeZone);
+	if (!format) {
+		format = new Intl.DateTimeFormat("en-US", {
+			timeZone: timeZone || undefined,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		});
+		wallClockFormats.set(timeZone, format);
+	}
+	const parts = Object.fromEntries(format.formatToParts(date).map((p) => [p.type, Number(p.value)]));
+	return {
+		year: parts.year,
+		month: parts.month,
+		day: parts.day,
+		hour: parts.hour,
+		minute: parts.minute,
+		second: parts.second,
+	};
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/** YYYY-MM-DD of a calendar date `offset` days from the given one. */
+function calendarDate(year: number, month: number, day: number, offset = 0): string {
+	return new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+}
+
+/**
+ * The memory day `offset` days from now: the calendar date in `time.timezone`, except that
+ * before `time.rolloverHour` it is still the previous day (late-night work counts as today's log).
+ */
+function memoryDay(offset: number): string {
+	const now = wallClock(clock(), config.time.timezone);
+	const rolledBack = now.hour < config.time.rolloverHour ? -1 : 0;
+	return calendarDate(now.year, now.month, now.day, offset + rolledBack);
 }
 
 export function todayStr(): string {
-	const d = new Date();
-	return d.toISOString().slice(0, 10);
+	return memoryDay(0);
 }
 
 export function yesterdayStr(): string {
-	const d = new Date();
-	d.setDate(d.getDate() - 1);
-	return d.toISOString().slice(0, 10);
+	return memoryDay(-1);
+}
+
+/** YYYY-MM-DD `offset` calendar days from `date`. */
+function shiftDate(date: string, offset: number): string {
+	const [year, month, day] = date.split("-").map(Number);
+	return calendarDate(year, month, day, offset);
+}
+
+function weekdayOf(date: string): number {
+	return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** "today", "yesterday", or e.g. "Friday, 3 days ago" for `date` relative to `today`. */
+function relativeDayLabel(date: string, today: string): string {
+	const days = Math.round((Date.parse(today) - Date.parse(date)) / 86_400_000);
+	if (days === 0) return "today";
+	if (days === 1) return "yesterday";
+	return `${WEEKDAY_NAMES[weekdayOf(date)]}, ${days} days ago`;
 }
 
+/** Entry timestamp: wall-clock time in `time.timezone`, YYYY-MM-DD HH:MM:SS. */
 export function nowTimestamp(): string {
-	return new Date()
-		.toISOString()
-		.replace("T", " ")
-		.replace(/\.\d+Z$/, "");
+	const t = wallClock(clock(), config.time.timezone);
+	return `${t.year}-${pad2(t.month)}-${pad2(t.day)} ${pad2(t.hour)}:${pad2(t.minute)}:${pad2(t.second)}`;
 }
 
 export function shortSessionId(sessionId: string): string {
@@ -105,31 +370,390 @@ export function isValidDailyDate(date: string): boolean {
 	return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
 }
 
-export function dailyPath(date: string): string {
+export function dailyPath(date: string, scope: MemoryScope = "global"): string {
 	if (!isValidDailyDate(date)) {
 		throw new Error(`Invalid daily date: ${date}. Expected YYYY-MM-DD.`);
 	}
-	return path.join(DAILY_DIR, `${date}.md`);
+	const paths = getScopePaths(scope);
+	if (!paths) {
+		throw new Error(noProjectScopeMessage());
+	}
+	return path.join(paths.dailyDir, `${date}.md`);
 }
 
 // ---------------------------------------------------------------------------
-// Limits + preview helpers
+// Configuration (defaults <- global config.json <- project config.json <- env)
 // ---------------------------------------------------------------------------
 
-const RESPONSE_PREVIEW_MAX_CHARS = 4_000;
-const RESPONSE_PREVIEW_MAX_LINES = 120;
+const CONFIG_FILE_NAME = "config.json";
+
+const SizeBudgetSchema = Type.Object(
+	{
+		maxChars: Type.Optional(Type.Integer({ minimum: 0 })),
+		maxLines: Type.Optional(Type.Integer({ minimum: 0 })),
+	},
+	{ additionalProperties: false },
+);
+
+// Config is validated with Value.Check, which needs real TypeBox kinds — StringEnum is only for tool schemas.
+const QmdUpdateModeSchema = Type.Union([Type.Literal("background"), Type.Literal("manual"), Type.Literal("off")]);
+const SearchBackendSchema = Type.Union([Type.Literal("qmd"), Type.Literal("local")]);
+const InjectionSearchModeSchema = Type.Union([
+	Type.Literal("keyword"),
+	Type.Literal("semantic"),
+	Type.Literal("deep"),
+	Type.Literal("hybrid"),
+]);
+const DailyWindowModeSchema = Type.Union([Type.Literal("logged"), Type.Literal("working")]);
+
+// A context section gets `share` of the token budget; maxChars/maxLines are optional hard caps.
+const ContextSectionSchema = Type.Object(
+	{
+		share: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+		maxChars: Type.Optional(Type.Integer({ minimum: 0 })),
+		maxLines: Type.Optional(Type.Integer({ minimum: 0 })),
+	},
+	{ additionalProperties: false },
+);
+
+export const MemoryConfigSchema = Type.Object(
+	{
+		context: Type.Optional(
+			Type.Object(
+				{
+					maxChars: Type.Optional(Type.Integer({ minimum: 0 })),
+					tokens: Type.Optional(
+						Type.Object(
+							{
+								fraction: Type.Optional(Type.Number({ exclusiveMinimum: 0, maximum: 1 })),
+								min: Type.Optional(Type.Integer({ minimum: 0 })),
+								max: Type.Optional(Type.Integer({ minimum: 0 })),
+								fallback: Type.Optional(Type.Integer({ minimum: 0 })),
+							},
+							{ additionalProperties: false },
+						),
+					),
+					pinned: Type.Optional(ContextSectionSchema),
+					longTerm: Type.Optional(ContextSectionSchema),
+					scratchpad: Type.Optional(ContextSectionSchema),
+					daily: Type.Optional(ContextSectionSchema),
+					search: Type.Optional(ContextSectionSchema),
+					dailyWindow: Type.Optional(
+						Type.Object(
+							{
+								days: Type.Optional(Type.Integer({ minimum: 1 })),
+								mode: Type.Optional(DailyWindowModeSchema),
+								decay: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+							},
+							{ additionalProperties: false },
+						),
+					),
+				},
+				{ additionalProperties: false },
+			),
+		),
+		preview: Type.Optional(SizeBudgetSchema),
+		exitSummary: Type.Optional(
+			Type.Object({ maxChars: Type.Optional(Type.Integer({ minimum: 0 })) }, { additionalProperties: false }),
+		),
+		search: Type.Optional(
+			Type.Object(
+				{
+					backend: Type.Optional(SearchBackendSchema),
+					timeoutMs: Type.Optional(Type.Integer({ minimum: 0 })),
+					injection: Type.Optional(
+						Type.Object(
+							{
+								mode: Type.Optional(InjectionSearchModeSchema),
+								limit: Type.Optional(Type.Integer({ minimum: 1 })),
+								minScore: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+								diversity: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+								query: Type.Optional(
+									Type.Object(
+										{
+											turns: Type.Optional(Type.Integer({ minimum: 0 })),
+											maxTerms: Type.Optional(Type.Integer({ minimum: 0 })),
+											expandTags: Type.Optional(Type.Boolean()),
+										},
+										{ additionalProperties: false },
+									),
+								),
+								timeoutMs: Type.Optional(
+									Type.Object(
+										{
+											semantic: Type.Optional(Type.Integer({ minimum: 0 })),
+											deep: Type.Optional(Type.Integer({ minimum: 0 })),
+										},
+										{ additionalProperties: false },
+									),
+								),
+								telemetryFile: Type.Optional(Type.String()),
+							},
+							{ additionalProperties: false },
+						),
+					),
+				},
+				{ additionalProperties: false },
+			),
+		),
+		trace: Type.Optional(Type.Object({ file: Type.Optional(Type.String()) }, { additionalProperties: false })),
+		history: Type.Optional(
+			Type.Object({ maxSnapshots: Type.Optional(Type.Integer({ minimum: 0 })) }, { additionalProperties: false }),
+		),
+		scratchpad: Type.Optional(
+			Type.Object({ inject: Type.Optional(Type.Array(Type.String())) }, { additionalProperties: false }),
+		),
+		git: Type.Optional(
+			Type.Object(
+				{
+					enabled: Type.Optional(Type.Boolean()),
+					remote: Type.Optional(Type.String()),
+					branch: Type.Optional(Type.String({ minLength: 1, pattern: "^[A-Za-z0-9._/-]+$" })),
+					autoSync: Type.Optional(Type.Boolean()),
+				},
+				{ additionalProperties: false },
+			),
+		),
+		time: Type.Optional(
+			Type.Object(
+				{
+					timezone: Type.Optional(Type.String()),
+					rolloverHour: Type.Optional(Type.Integer({ minimum: 0, maximum: 23 })),
+				},
+				{ additionalProperties: false },
+			),
+		),
+		qmd: Type.Optional(
+			Type.Object(
+				{
+					collection: Type.Optional(Type.String({ minLength: 1, pattern: "^[A-Za-z0-9._-]+$" })),
+					update: Type.Optional(QmdUpdateModeSchema),
+					updateDebounceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+				},
+				{ additionalProperties: false },
+			),
+		),
+	},
+	{ additionalProperties: false },
+);
+
+/** Shape of a config.json layer — every field optional. */
+export type MemoryConfigFile = Static<typeof MemoryConfigSchema>;
+
+interface SizeBudget {
+	maxChars: number;
+	maxLines: number;
+}
+
+interface ContextSectionBudget {
+	share: number; // fraction of the injection's token budget
+	maxLines: number; // at the fallback budget; scaled up with larger budgets
+	maxChars?: number; // hard cap, off unless configured
+}
+
+/** Fully resolved configuration used at runtime. */
+export interface MemoryConfig {
+	context: {
+		maxChars?: number; // hard cap on the whole injection, off unless configured
+		// Token budget: `fraction` of the model's context window, clamped to [min, max];
+		// `fallback` when the window is unknown.
+		tokens: { fraction: number; min: number; max: number; fallback: number };
+		pinned: ContextSectionBudget;
+		longTerm: ContextSectionBudget;
+		scratchpad: ContextSectionBudget;
+		daily: ContextSectionBudget;
+		search: ContextSectionBudget;
+		// Daily logs injected: today plus the `days - 1` most recent earlier days with a log ("logged")
+		// or working days, Monday to Friday ("working"). Each older day's budget is `decay` times the previous.
+		dailyWindow: { days: number; mode: "logged" | "working"; decay: number };
+	};
+	preview: SizeBudget;
+	exitSummary: { maxChars: number };
+	search: {
+		backend: "qmd" | "local";
+		timeoutMs: number; // keyword search deadline, for memory_search and injection
+		// Selective injection: `hybrid` runs keyword and semantic in parallel and merges them.
+		// Semantic/deep searches get their own deadline; past it, the keyword results are used.
+		injection: {
+			mode: InjectionSearchMode;
+			limit: number;
+			minScore: number; // hits scoring lower are never injected
+			// Weight of novelty against relevance when picking hits (MMR): 0 = by score only;
+			// higher values favor hits from other files and with other wording.
+			diversity: number;
+			// The search query: prompt keywords plus up to `maxTerms` salient terms from the last
+			// `turns` session messages, and the words of #tags / [[links]] mentioned there.
+			query: { turns: number; maxTerms: number; expandTags: boolean };
+			timeoutMs: { semantic: number; deep: number };
+			telemetryFile: string; // JSON lines of search telemetry appended here ("" = off)
+		};
+	};
+	trace: { file: string }; // JSON lines of injection traces appended here ("" = off)
+	history: { maxSnapshots: number };
+	// Scratchpad lists injected into context, by name ("default" is SCRATCHPAD.md, "*" every list).
+	scratchpad: { inject: string[] };
+	git: { enabled: boolean; remote: string; branch: string; autoSync: boolean };
+	time: { timezone: string; rolloverHour: number };
+	qmd: {
+		collection: string;
+		update: "background" | "manual" | "off";
+		updateDebounceMs: number;
+	};
+}
+
+export const DEFAULT_CONFIG: MemoryConfig = {
+	context: {
+		tokens: { fraction: 0.05, min: 1_000, max: 20_000, fallback: 4_000 },
+		pinned: { share: 0.1, maxLines: 60 },
+		longTerm: { share: 0.25, maxLines: 150 },
+		scratchpad: { share: 0.125, maxLines: 120 },
+		daily: { share: 0.2, maxLines: 120 },
+		search: { share: 0.15, maxLines: 80 },
+		dailyWindow: { days: 2, mode: "logged", decay: 0.5 },
+	},
+	preview: { maxChars: 4_000, maxLines: 120 },
+	exitSummary: { maxChars: 80_000 },
+	search: {
+		backend: "qmd",
+		timeoutMs: 3_000,
+		injection: {
+			mode: "keyword",
+			limit: 3,
+			minScore: 0.15,
+			diversity: 0.3,
+			query: { turns: 4, maxTerms: 8, expandTags: true },
+			timeoutMs: { semantic: 2_000, deep: 5_000 },
+			telemetryFile: "",
+		},
+	},
+	trace: { file: "" },
+	history: { maxSnapshots: 20 },
+	scratchpad: { inject: ["*"] },
+	git: { enabled: false, remote: "", branch: "main", autoSync: false },
+	time: { timezone: "", rolloverHour: 0 },
+	qmd: { collection: "pi-memory", update: "background", updateDebounceMs: 500 },
+};
+
+let config: MemoryConfig = structuredClone(DEFAULT_CONFIG);
+
+export function getConfig(): MemoryConfig {
+	return config;
+}
+
+/** Replace the active config with defaults plus an override (for testing). */
+export function _setConfigForTest(override: MemoryConfigFile) {
+	config = mergeConfig(structuredClone(DEFAULT_CONFIG), override);
+}
+
+/** Restore the default config (for testing). */
+export function _resetConfigForTest() {
+	config = structuredClone(DEFAULT_CONFIG);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeConfig<T>(base: T, layer: unknown): T {
+	if (!isPlainObject(layer) || !isPlainObject(base)) return base;
+	const merged: Record<string, unknown> = { ...base };
+	for (const [key, value] of Object.entries(layer)) {
+		if (value === undefined) continue;
+		merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeConfig(merged[key], value) : value;
+	}
+	return merged as T;
+}
+
+export interface ConfigLayerError {
+	file: string;
+	messages: string[];
+}
+
+function describeConfigError(error: ValueError): string {
+	const options = (error.schema.anyOf as { const?: unknown }[] | undefined)
+		?.map((option) => option.const)
+		.filter((value) => value !== undefined);
+	return options?.length ? `expected one of ${options.join(", ")}` : error.message;
+}
+
+/** Read and validate one config.json layer. Missing files are not an error. */
+export function readConfigLayer(file: string): { layer: MemoryConfigFile | null; error?: ConfigLayerError } {
+	const raw = readFileSafe(file);
+	if (raw === null || !raw.trim()) return { layer: null };
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		return { layer: null, error: { file, messages: [`invalid JSON: ${message}`] } };
+	}
+
+	if (!Value.Check(MemoryConfigSchema, parsed)) {
+		const messages = [...Value.Errors(MemoryConfigSchema, parsed)]
+			.slice(0, 5)
+			.map((e) => `${e.path || "/"}: ${describeConfigError(e)}`);
+		return { layer: null, error: { file, messages } };
+	}
+	const timeZone = parsed.time?.timezone;
+	if (timeZone && !isValidTimeZone(timeZone)) {
+		return { layer: null, error: { file, messages: [`/time/timezone: unknown IANA time zone "${timeZone}"`] } };
+	}
+	return { layer: parsed };
+}
+
+/** Environment variables win over every config file. */
+function applyEnvOverrides(resolved: MemoryConfig): MemoryConfig {
+	const update = process.env.PI_MEMORY_QMD_UPDATE?.toLowerCase();
+	if (update === "background" || update === "manual" || update === "off") {
+		resolved.qmd.update = update;
+	}
+	const injectionMode = process.env.PI_MEMORY_INJECTION_MODE?.toLowerCase();
+	if (Value.Check(InjectionSearchModeSchema, injectionMode)) {
+		resolved.search.injection.mode = injectionMode;
+	}
+	const telemetryFile = process.env.PI_MEMORY_SEARCH_TELEMETRY;
+	if (telemetryFile) resolved.search.injection.telemetryFile = telemetryFile;
+	const traceFile = process.env.PI_MEMORY_TRACE;
+	if (traceFile) resolved.trace.file = traceFile;
+	return resolved;
+}
 
-const CONTEXT_LONG_TERM_MAX_CHARS = 4_000;
-const CONTEXT_LONG_TERM_MAX_LINES = 150;
-const CONTEXT_SCRATCHPAD_MAX_CHARS = 2_000;
-const CONTEXT_SCRATCHPAD_MAX_LINES = 120;
-const CONTEXT_DAILY_MAX_CHARS = 3_000;
-const CONTEXT_DAILY_MAX_LINES = 120;
-const CONTEXT_SEARCH_MAX_CHARS = 2_500;
-const CONTEXT_SEARCH_MAX_LINES = 80;
-const CONTEXT_MAX_CHARS = 16_000;
+/**
+ * Load config.json from the global memory dir, then the project scope (if active).
+ * Invalid layers are skipped and reported; the rest still apply.
+ */
+export function loadConfig(): { config: MemoryConfig; errors: ConfigLayerError[] } {
+	let resolved = structuredClone(DEFAULT_CONFIG);
+	const errors: ConfigLayerError[] = [];
+	const files = [path.join(MEMORY_DIR, CONFIG_FILE_NAME)];
+	if (activeProject) files.push(path.join(activeProject.memoryDir, CONFIG_FILE_NAME));
+
+	for (const file of files) {
+		const { layer, error } = readConfigLayer(file);
+		if (error) errors.push(error);
+		if (layer) resolved = mergeConfig(resolved, layer);
+	}
+
+	config = applyEnvOverrides(resolved);
+	return { config, errors };
+}
+
+export function formatConfigErrors(errors: ConfigLayerError[]): string {
+	const lines = ["pi-memory: ignoring invalid config file(s):"];
+	for (const error of errors) {
+		lines.push(`  ${error.file}`);
+		for (const message of error.messages) {
+			lines.push(`    - ${message}`);
+		}
+	}
+	return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Limits + preview helpers
+// ---------------------------------------------------------------------------
 
-const EXIT_SUMMARY_MAX_CHARS = 80_000;
 const EXIT_SUMMARY_SYSTEM_PROMPT = [
 	"You are a session recap assistant.",
 	"Read the conversation and extract key decisions, lessons learned, notes, and follow-ups.",
@@ -238,8 +862,8 @@ function buildPreview(
 
 function formatPreviewBlock(label: string, content: string, mode: TruncateMode) {
 	const result = buildPreview(content, {
-		maxLines: RESPONSE_PREVIEW_MAX_LINES,
-		maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+		maxLines: config.preview.maxLines,
+		maxChars: config.preview.maxChars,
 		mode,
 	});
 
@@ -254,13 +878,75 @@ function formatPreviewBlock(label: string, content: string, mode: TruncateMode)
 	return `${meta}\n\n${result.preview}${note}`;
 }
 
-function formatContextSection(label: string, content: string, mode: TruncateMode, maxLines: number, maxChars: number) {
-	const result = buildPreview(content, { maxLines, maxChars, mode });
+/** Estimated token count of a text. Replace with a real tokenizer via setTokenEstimator. */
+export type TokenEstimator = (text: string) => number;
+
+// Scripts where a character is roughly a token rather than a quarter of one.
+const DENSE_SCRIPT_REGEX = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+/** Default estimate: ~4 characters per token, one token per CJK/Hangul character. */
+export const heuristicTokenEstimator: TokenEstimator = (text) => {
+	const dense = text.match(DENSE_SCRIPT_REGEX)?.length ?? 0;
+	return Math.ceil((text.length - dense) / 4) + dense;
+};
+
+let tokenEstimator: TokenEstimator = heuristicTokenEstimator;
+
+/** Plug in a tokenizer for context budgeting (null restores the heuristic). */
+export function setTokenEstimator(estimator: TokenEstimator | null) {
+	tokenEstimator = estimator ?? heuristicTokenEstimator;
+}
+
+export function estimateTokens(text: string): number {
+	return tokenEstimator(text);
+}
+
+/** Injection budget in tokens for a model with the given context window (undefined: unknown model). */
+export function contextTokenBudget(contextWindow?: number): number {
+	const { fraction, min, max, fallback } = config.context.tokens;
+	if (!contextWindow || contextWindow <= 0) return fallback;
+	return Math.max(min, Math.min(max, Math.floor(contextWindow * fraction)));
+}
+
+/** buildPreview, shrunk further until the estimated token count fits `maxTokens`. */
+function buildTokenPreview(
+	content: string,
+	options: { maxTokens: number; maxLines: number; maxChars?: number; mode: TruncateMode },
+): PreviewResult & { tokens: number } {
+	let maxChars = options.maxChars ?? 0;
+	for (let attempt = 0; ; attempt++) {
+		const result = buildPreview(content, { maxLines: options.maxLines, maxChars, mode: options.mode });
+		const tokens = estimateTokens(result.preview);
+		if (tokens <= options.maxTokens || result.previewChars <= 1 || attempt >= 8) return { ...result, tokens };
+		// Scale the character cap by how far over budget we are; a little extra margin converges faster.
+		maxChars = Math.max(1, Math.floor(result.previewChars * (options.maxTokens / tokens) * 0.97));
+	}
+}
+
+interface SectionBudget {
+	maxTokens: number;
+	maxLines: number;
+	maxChars?: number;
+}
+
+/** Token budget for one section: its share of the total, with lines scaled for larger budgets. */
+function sectionBudget(section: ContextSectionBudget, totalTokens: number): SectionBudget {
+	const scale = Math.max(1, totalTokens / config.context.tokens.fallback);
+	return {
+		maxTokens: Math.floor(totalTokens * section.share),
+		maxLines: Math.round(section.maxLines * scale),
+		maxChars: section.maxChars,
+	};
+}
+
+function formatContextSection(label: string, content: string, mode: TruncateMode, budget: SectionBudget) {
+	if (budget.maxTokens <= 0) return ""; // share 0 turns a section off
+	const result = buildTokenPreview(content, { ...budget, mode });
 	if (!result.preview) {
 		return "";
 	}
 	const note = result.truncated
-		? `\n\n[truncated: showing ${result.previewLines}/${result.totalLines} lines, ${result.previewChars}/${result.totalChars} chars]`
+		? `\n\n[truncated: showing ${result.previewLines}/${result.totalLines} lines, ${result.previewChars}/${result.totalChars} chars, ~${result.tokens} tokens]`
 		: "";
 	return `${label}\n\n${result.preview}${note}`;
 }
@@ -288,7 +974,7 @@ function truncateConversationForSummary(conversationText: string): {
 	if (!trimmed) {
 		return { text: "", truncated: false, totalChars: 0 };
 	}
-	const truncated = truncateText(trimmed, EXIT_SUMMARY_MAX_CHARS, "end");
+	const truncated = truncateText(trimmed, config.exitSummary.maxChars, "end");
 	return {
 		text: truncated.text,
 		truncated: truncated.truncated,
@@ -336,9 +1022,10 @@ function formatExitSummaryEntry(
 	reason: ExitSummaryReason,
 	sessionId: string,
 	timestamp: string,
+	id: string,
 ): string {
 	const header = `## Session Summary (auto, exit: ${formatExitSummaryReason(reason)})`;
-	return [`<!-- ${timestamp} [${sessionId}] -->`, header, "", summary.trim()].join("\n");
+	return [formatEntryMeta(timestamp, sessionId, id), header, "", summary.trim()].join("\n");
 }
 
 function getSessionBranch(ctx: ExtensionContext): SessionEntry[] | null {
@@ -351,6 +1038,28 @@ function getSessionBranch(ctx: ExtensionContext): SessionEntry[] | null {
 	return sessionManager.getBranch();
 }
 
+/** Text of the last `count` user and assistant messages on the session branch, oldest first. */
+function recentMessageTexts(ctx: ExtensionContext, count: number): string[] {
+	if (count <= 0) return [];
+	const texts: string[] = [];
+	for (const entry of getSessionBranch(ctx) ?? []) {
+		if (entry.type !== "message") continue;
+		const { role, content } = entry.message as { role: string; content?: unknown };
+		if (role !== "user" && role !== "assistant") continue;
+		const text =
+			typeof content === "string"
+				? content
+				: Array.isArray(content)
+					? content
+							.filter((c): c is { type: "text"; text: string } => c?.type === "text")
+							.map((c) => c.text)
+							.join("\n")
+					: "";
+		if (text.trim()) texts.push(text);
+	}
+	return texts.slice(-count);
+}
+
 async function resolveExitSummaryApiKey(ctx: ExtensionContext): Promise<string | undefined> {
 	if (!ctx.model) return undefined;
 
@@ -408,7 +1117,7 @@ async function generateExitSummary(ctx: ExtensionContext): Promise<ExitSummaryRe
 		{
 			role: "user",
 			content: [{ type: "text", text: buildExitSummaryPrompt(truncatedText, truncated, totalChars) }],
-			timestamp: Date.now(),
+			timestamp: clock().getTime(),
 		},
 	];
 
@@ -436,11 +1145,11 @@ async function generateExitSummary(ctx: ExtensionContext): Promise<ExitSummaryRe
 }
 
 function getQmdUpdateMode(): "background" | "manual" | "off" {
-	const mode = (process.env.PI_MEMORY_QMD_UPDATE ?? "background").toLowerCase();
+	const mode = process.env.PI_MEMORY_QMD_UPDATE?.toLowerCase();
 	if (mode === "manual" || mode === "off" || mode === "background") {
 		return mode;
 	}
-	return "background";
+	return config.qmd.update;
 }
 
 async function ensureQmdAvailableForUpdate(): Promise<boolean> {
@@ -451,427 +1160,2832 @@ async function ensureQmdAvailableForUpdate(): Promise<boolean> {
 }
 
 // ---------------------------------------------------------------------------
-// Scratchpad helpers
+// Memory entries (metadata comments with stable IDs)
 // ---------------------------------------------------------------------------
 
-export interface ScratchpadItem {
-	done: boolean;
-	text: string;
-	meta: string; // the <!-- timestamp [session] --> comment
+export interface MemoryEntry {
+	id: string | null; // null for entries written before IDs existed, or hand-written text
+	timestamp: string | null;
+	session: string | null;
+	tags: string[];
+	links: string[];
+	body: string; // entry text without the metadata comment
+	meta: string; // the <!-- timestamp [session] id:... --> comment ("" for text before the first one)
+	startLine: number; // 0-based line of the metadata comment (or first line)
+	endLine: number; // exclusive
 }
 
-export function parseScratchpad(content: string): ScratchpadItem[] {
-	const items: ScratchpadItem[] = [];
-	const lines = content.split("\n");
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i];
-		const match = line.match(/^- \[([ xX])\] (.+)$/);
-		if (match) {
-			let meta = "";
-			if (i > 0 && lines[i - 1].match(/^<!--.*-->$/)) {
-				meta = lines[i - 1];
-			}
-			items.push({
-				done: match[1].toLowerCase() === "x",
-				text: match[2],
-				meta,
-			});
-		}
+const ENTRY_ID_LENGTH = 6;
+const ENTRY_META_REGEX = /^<!--(.*)-->$/;
+const ENTRY_TIMESTAMP_REGEX = /\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/;
+const ENTRY_SESSION_REGEX = /\[([^\]]+)\]/;
+const ENTRY_ID_REGEX = /(?:^|\s)id:([a-z0-9]+)(?=\s|$)/;
+const TAG_REGEX = /(?:^|\s)#([A-Za-z][\w-]*)/g;
+const LINK_REGEX = /\[\[([^\]]+)\]\]/g;
+
+/** Random short ID, re-rolled until it doesn't collide with `taken`. */
+export function newEntryId(taken: ReadonlySet<string> = new Set()): string {
+	for (;;) {
+		const id = randomBytes(ENTRY_ID_LENGTH).toString("hex").slice(0, ENTRY_ID_LENGTH);
+		if (!taken.has(id)) return id;
 	}
-	return items;
 }
 
-export function serializeScratchpad(items: ScratchpadItem[]): string {
-	const lines: string[] = ["# Scratchpad", ""];
-	for (const item of items) {
-		if (item.meta) {
-			lines.push(item.meta);
-		}
-		const checkbox = item.done ? "[x]" : "[ ]";
-		lines.push(`- ${checkbox} ${item.text}`);
-	}
-	return `${lines.join("\n")}\n`;
+/** Metadata comment for a new entry. `prefix` marks special entries (e.g. "HANDOFF "). */
+export function formatEntryMeta(timestamp: string, sessionId: string, id: string, prefix = ""): string {
+	return `<!-- ${prefix}${timestamp} [${sessionId}] id:${id} -->`;
 }
 
-// ---------------------------------------------------------------------------
-// Context builder
-// ---------------------------------------------------------------------------
+/** Parse a `<!-- ... -->` metadata line. Returns null for anything else. */
+export function parseEntryMeta(
+	line: string,
+): { id: string | null; timestamp: string | null; session: string | null } | null {
+	const match = line.trim().match(ENTRY_META_REGEX);
+	if (!match) return null;
+	const inner = match[1];
+	return {
+		id: inner.match(ENTRY_ID_REGEX)?.[1] ?? null,
+		timestamp: inner.match(ENTRY_TIMESTAMP_REGEX)?.[0] ?? null,
+		session: inner.match(ENTRY_SESSION_REGEX)?.[1] ?? null,
+	};
+}
 
-export function buildMemoryContext(searchResults?: string): string {
-	ensureDirs();
-	// Priority order: scratchpad > today's daily > search results > MEMORY.md > yesterday's daily
-	const sections: string[] = [];
+function uniqueMatches(text: string, regex: RegExp): string[] {
+	return [...new Set([...text.matchAll(regex)].map((m) => m[1]))];
+}
 
-	const scratchpad = readFileSafe(SCRATCHPAD_FILE);
-	if (scratchpad?.trim()) {
-		const openItems = parseScratchpad(scratchpad).filter((i) => !i.done);
-		if (openItems.length > 0) {
-			const serialized = serializeScratchpad(openItems);
-			const section = formatContextSection(
-				"## SCRATCHPAD.md (working context)",
-				serialized,
-				"start",
-				CONTEXT_SCRATCHPAD_MAX_LINES,
-				CONTEXT_SCRATCHPAD_MAX_CHARS,
-			);
-			if (section) sections.push(section);
+/** Split MEMORY.md or a daily log into entries, one per metadata comment. */
+export function parseMemoryEntries(content: string): MemoryEntry[] {
+	const lines = content.split("\n");
+	const entries: MemoryEntry[] = [];
+	let start = 0;
+
+	const flush = (end: number) => {
+		const meta = parseEntryMeta(lines[start]) ? lines[start] : "";
+		const bodyLines = lines.slice(meta ? start + 1 : start, end);
+		const body = bodyLines.join("\n").trim();
+		if (!meta && !body) return;
+		const parsed = meta ? parseEntryMeta(meta) : null;
+		entries.push({
+			id: parsed?.id ?? null,
+			timestamp: parsed?.timestamp ?? null,
+			session: parsed?.session ?? null,
+			tags: uniqueMatches(body, TAG_REGEX),
+			links: uniqueMatches(body, LINK_REGEX),
+			body,
+			meta,
+			startLine: start,
+			endLine: end,
+		});
+	};
+
+	for (let i = 1; i < lines.length; i++) {
+		if (parseEntryMeta(lines[i])) {
+			flush(i);
+			start = i;
 		}
 	}
+	flush(lines.length);
+	return entries;
+}
 
-	const today = todayStr();
-	const yesterday = yesterdayStr();
+/** memory_read output: file content followed by the IDs of its entries, if any. */
+function withEntryIdFooter(content: string, entryIds: string[]): string {
+	if (entryIds.length === 0) return content;
+	return `${content.replace(/\s+$/, "")}\n\n---\nEntry IDs: ${entryIds.join(", ")}`;
+}
 
-	const todayContent = readFileSafe(dailyPath(today));
-	if (todayContent?.trim()) {
-		const section = formatContextSection(
-			`## Daily log: ${today} (today)`,
-			todayContent,
-			"end",
-			CONTEXT_DAILY_MAX_LINES,
-			CONTEXT_DAILY_MAX_CHARS,
-		);
-		if (section) sections.push(section);
+/** IDs already used in a file's content. */
+export function entryIdsIn(content: string): Set<string> {
+	const ids = new Set<string>();
+	for (const line of content.split("\n")) {
+		const id = parseEntryMeta(line)?.id;
+		if (id) ids.add(id);
 	}
+	return ids;
+}
 
-	if (searchResults?.trim()) {
-		const section = formatContextSection(
-			"## Relevant memories (auto-retrieved)",
-			searchResults,
-			"start",
-			CONTEXT_SEARCH_MAX_LINES,
-			CONTEXT_SEARCH_MAX_CHARS,
-		);
-		if (section) sections.push(section);
-	}
+export interface EntryMatch {
+	file: string;
+	entry: MemoryEntry;
+}
 
-	const longTerm = readFileSafe(MEMORY_FILE);
-	if (longTerm?.trim()) {
-		const section = formatContextSection(
-			"## MEMORY.md (long-term)",
-			longTerm,
-			"middle",
-			CONTEXT_LONG_TERM_MAX_LINES,
-			CONTEXT_LONG_TERM_MAX_CHARS,
-		);
-		if (section) sections.push(section);
+/** Entries with the given ID, or whose body contains `match`, across `files`. */
+export function findMemoryEntries(files: string[], query: { id?: string; match?: string }): EntryMatch[] {
+	const matches: EntryMatch[] = [];
+	for (const file of files) {
+		for (const entry of parseMemoryEntries(readFileSafe(file) ?? "")) {
+			const hit = query.id ? entry.id === query.id : query.match ? entry.body.includes(query.match) : false;
+			if (hit) matches.push({ file, entry });
+		}
 	}
+	return matches;
+}
 
-	const yesterdayContent = readFileSafe(dailyPath(yesterday));
-	if (yesterdayContent?.trim()) {
-		const section = formatContextSection(
-			`## Daily log: ${yesterday} (yesterday)`,
-			yesterdayContent,
-			"end",
-			CONTEXT_DAILY_MAX_LINES,
-			CONTEXT_DAILY_MAX_CHARS,
-		);
-		if (section) sections.push(section);
-	}
+const PINNED_TAG = "pinned";
+const PINNED_TAG_REGEX = /(^|\s)#pinned(?=\s|$)/g;
 
-	if (sections.length === 0) {
-		return "";
-	}
+export function isPinnedEntry(entry: MemoryEntry): boolean {
+	return entry.tags.includes(PINNED_TAG);
+}
 
-	const context = `# Memory\n\n${sections.join("\n\n---\n\n")}`;
-	if (context.length > CONTEXT_MAX_CHARS) {
-		const result = buildPreview(context, {
-			maxLines: Number.POSITIVE_INFINITY,
-			maxChars: CONTEXT_MAX_CHARS,
-			mode: "start",
-		});
-		const note = result.truncated
-			? `\n\n[truncated overall context: showing ${result.previewChars}/${result.totalChars} chars]`
-			: "";
-		return `${result.preview}${note}`;
+/** Entry body with the `#pinned` tag added (on its own last line) or removed. */
+export function setEntryPinned(body: string, pinned: boolean): string {
+	const hasTag = uniqueMatches(body, TAG_REGEX).includes(PINNED_TAG);
+	if (pinned) return hasTag ? body : `${body}\n#${PINNED_TAG}`;
+	const lines: string[] = [];
+	for (const line of body.split("\n")) {
+		const stripped = line.replace(PINNED_TAG_REGEX, "").trimEnd();
+		if (stripped === line.trimEnd()) lines.push(line);
+		else if (stripped.trim()) lines.push(stripped);
 	}
+	return lines.join("\n").trim();
+}
 
-	return context;
+/** Content without its pinned entries (they get their own context section). */
+function withoutPinnedEntries(content: string): string {
+	const pinned = parseMemoryEntries(content).filter(isPinnedEntry);
+	// Last to first, so earlier entries' line numbers stay valid.
+	return pinned.reverse().reduce((rest, entry) => replaceMemoryEntry(rest, entry, null), content);
 }
 
-// ---------------------------------------------------------------------------
-// QMD integration
-// ---------------------------------------------------------------------------
+/**
+ * Replace an entry's lines (metadata comment included) with `replacement`, or remove them when null.
+ * Blank lines separating it from the next entry are kept.
+ */
+export function replaceMemoryEntry(content: string, entry: MemoryEntry, replacement: string | null): string {
+	const lines = content.split("\n");
+	const region = lines.slice(entry.startLine, entry.endLine);
+	let trailingBlank = 0;
+	while (trailingBlank < region.length && !region[region.length - 1 - trailingBlank].trim()) trailingBlank++;
+	const before = lines.slice(0, entry.startLine);
+	const after = lines.slice(entry.endLine);
+
+	if (replacement !== null) {
+		return [...before, ...replacement.split("\n"), ...Array(trailingBlank).fill(""), ...after].join("\n");
+	}
+	if (after.length > 0) return [...before, ...after].join("\n");
+	// Removed the last entry: drop the separator left behind by the previous one.
+	const rest = before.join("\n").replace(/\s+$/, "");
+	return rest && content.endsWith("\n") ? `${rest}\n` : rest;
+}
+
+/** Line diff: shared leading/trailing lines as context, the changed middle as -/+. */
+export function formatLineDiff(before: string, after: string): string {
+	const a = before ? before.split("\n") : [];
+	const b = after ? after.split("\n") : [];
+	let head = 0;
+	while (head < a.length && head < b.length && a[head] === b[head]) head++;
+	let tail = 0;
+	while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+	return [
+		...a.slice(0, head).map((l) => `  ${l}`),
+		...a.slice(head, a.length - tail).map((l) => `- ${l}`),
+		...b.slice(head, b.length - tail).map((l) => `+ ${l}`),
+		...a.slice(a.length - tail).map((l) => `  ${l}`),
+	].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// File locking + atomic writes (several pi sessions may share one memory dir)
+// ---------------------------------------------------------------------------
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 15;
+
+// Locks held by the current async call chain, so nested writes don't wait on themselves.
+const heldLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (err) {
+		return (err as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+/**
+ * A lock is stale when its holder has exited. A holder on another host can't be checked, so its lock
+ * is stale once it is older than LOCK_STALE_MS; a live local holder keeps its lock however long it takes.
+ */
+function isStaleLock(lockPath: string): boolean {
+	try {
+		const [pid, host] = fs.readFileSync(lockPath, "utf-8").split("\n");
+		if (host === os.hostname() && Number(pid) > 0) return !isProcessAlive(Number(pid));
+		return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+	} catch {
+		return false; // released between our attempts
+	}
+}
+
+/**
+ * Move a stale lock out of the way. It is renamed to a unique name first, so of several waiters only
+ * one takes it over, and only deleted once the moved token is itself stale: a live lock taken in the
+ * meantime is put back, or, when the path was taken again already, left where it is rather than lost.
+ */
+function breakStaleLock(lockPath: string) {
+	const moved = `${lockPath}.${randomBytes(4).toString("hex")}.stale`;
+	try {
+		fs.renameSync(lockPath, moved);
+	} catch {
+		return; // another waiter got there first
+	}
+	if (!isStaleLock(moved)) {
+		try {
+			fs.linkSync(moved, lockPath);
+		} catch {
+			return; // taken again already; keep the live token on disk
+		}
+	}
+	fs.rmSync(moved, { force: true });
+}
+
+/** Take `lockPath`, waiting (without blocking the event loop) while another holder has it. Returns the lock's token. */
+async function acquireLock(lockPath: string): Promise<string> {
+	fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+	const token = `${process.pid}\n${os.hostname()}\n${randomBytes(8).toString("hex")}\n`;
+	const deadline = Date.now() + LOCK_TIMEOUT_MS;
+	for (;;) {
+		try {
+			fs.writeFileSync(lockPath, token, { flag: "wx" });
+			return token;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+		}
+		if (isStaleLock(lockPath)) {
+			breakStaleLock(lockPath);
+			continue;
+		}
+		if (Date.now() > deadline) {
+			throw new Error(
+				`Timed out waiting for ${lockPath}. If no other pi session is writing memory, delete the lock file.`,
+			);
+		}
+		await sleep(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+	}
+}
+
+/** Remove the lock unless it was taken over (as stale) since we took it. */
+function releaseLock(lockPath: string, token: string) {
+	if (readFileSafe(lockPath) === token) fs.rmSync(lockPath, { force: true });
+}
+
+/** Run `fn` holding the advisory lock `<file>.lock`. Re-entrant within one async call chain. */
+export async function withFileLock<T>(file: string, fn: () => T | Promise<T>): Promise<T> {
+	const lockPath = `${file}.lock`;
+	const held = heldLocks.getStore() ?? new Set<string>();
+	if (held.has(lockPath)) return fn();
+	const token = await acquireLock(lockPath);
+	try {
+		return await heldLocks.run(new Set([...held, lockPath]), fn);
+	} finally {
+		releaseLock(lockPath, token);
+	}
+}
+
+/** Write to a temp file beside `file`, then rename over it, so readers never see a half-written file. */
+export function writeFileAtomic(file: string, content: string) {
+	const tmp = `${file}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+	try {
+		fs.writeFileSync(tmp, content, "utf-8");
+		fs.renameSync(tmp, file);
+	} catch (err) {
+		fs.rmSync(tmp, { force: true });
+		throw err;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// History (snapshots of previous file contents under <scope dir>/.history/)
+// ---------------------------------------------------------------------------
+
+const HISTORY_DIR_NAME = ".history";
+
+export interface Snapshot {
+	id: string; // file name without .md, e.g. 2026-03-01T10-15-00.123Z--memory_write
+	path: string;
+	timestamp: string; // YYYY-MM-DD HH:MM:SS (UTC)
+	reason: string; // the write that replaced this content
+}
+
+/** Snapshot directory for a memory file: one folder per file, under its scope's `.history/`. */
+export function historyDirFor(file: string): string {
+	const scopeDir =
+		[getScopePaths("project"), getScopePaths("global")].find((p) => p && isInsideDir(file, p.dir))?.dir ??
+		path.dirname(file);
+	const key = path.relative(scopeDir, file).split(path.sep).join("__");
+	return path.join(scopeDir, HISTORY_DIR_NAME, key);
+}
+
+/** Snapshots of a file, newest first. */
+export function listSnapshots(file: string): Snapshot[] {
+	const dir = historyDirFor(file);
+	let names: string[];
+	try {
+		names = fs.readdirSync(dir).filter((n) => n.endsWith(".md"));
+	} catch {
+		return [];
+	}
+	return names
+		.sort()
+		.reverse()
+		.map((name) => {
+			const id = name.slice(0, -3);
+			const [stamp, reason = ""] = id.split("--");
+			const timestamp = stamp.replace("T", " ").replace(/-(\d{2})-(\d{2})\.\d+Z$/, ":$1:$2");
+			return { id, path: path.join(dir, name), timestamp, reason };
+		});
+}
+
+/** Find a snapshot by ID or 1-based position (1 = newest). Defaults to the newest. */
+export function findSnapshot(file: string, ref?: string): Snapshot | null {
+	const snapshots = listSnapshots(file);
+	if (!ref) return snapshots[0] ?? null;
+	if (/^\d+$/.test(ref)) return snapshots[Number(ref) - 1] ?? null;
+	return snapshots.find((s) => s.id === ref) ?? null;
+}
+
+/** Save `content` as the newest snapshot of `file` and prune beyond `history.maxSnapshots`. */
+export function snapshotFile(file: string, content: string, reason: string): Snapshot | null {
+	const max = config.history.maxSnapshots;
+	if (max <= 0) return null;
+	const dir = historyDirFor(file);
+	fs.mkdirSync(dir, { recursive: true });
+	const safeReason = reason.replace(/[^\w-]+/g, "_");
+	// Names sort by time, so a new snapshot must be strictly later than the newest one (same-ms writes).
+	const newest = listSnapshots(file)[0]?.id.split("--")[0];
+	const newestTime = newest ? Date.parse(newest.replace(/T(\d{2})-(\d{2})-(\d{2})/, "T$1:$2:$3")) : 0;
+	const time = Math.max(clock().getTime(), newestTime + 1);
+	const name = `${new Date(time).toISOString().replace(/:/g, "-")}--${safeReason}.md`;
+	fs.writeFileSync(path.join(dir, name), content, "utf-8");
+
+	const snapshots = listSnapshots(file);
+	for (const old of snapshots.slice(max)) fs.rmSync(old.path, { force: true });
+	return snapshots.find((s) => s.path === path.join(dir, name)) ?? null;
+}
+
+/**
+ * Every write to a memory file goes through here: the previous contents are snapshotted
+ * first, so overwrites, deletes and clears can be undone with memory_restore / /memory-undo.
+ * The write holds the file's lock and replaces the file atomically.
+ */
+export async function writeMemoryFile(file: string, content: string, reason: string) {
+	await withFileLock(file, () => {
+		const previous = readFileSafe(file);
+		if (previous !== null && previous !== content) snapshotFile(file, previous, reason);
+		writeFileAtomic(file, content);
+	});
+}
+
+/**
+ * Read-modify-write under the file's lock, so concurrent sessions can't drop each other's changes.
+ * `update` gets the current contents ("" when missing) and returns the new ones, or null to leave the file alone.
+ */
+export function updateMemoryFile(
+	file: string,
+	reason: string,
+	update: (current: string) => string | null,
+): Promise<string> {
+	return withFileLock(file, async () => {
+		const current = readFileSafe(file) ?? "";
+		const next = update(current);
+		if (next === null) return current;
+		await writeMemoryFile(file, next, reason);
+		return next;
+	});
+}
+
+// ---------------------------------------------------------------------------
+// Scratchpad helpers
+// ---------------------------------------------------------------------------
+
+export type ScratchpadPriority = "p0" | "p1" | "p2" | "p3";
+
+/**
+ * One checklist line. Priority, due date and tags follow the text, in any order when written by hand,
+ * and are written back in this one: `- [ ] Renew TLS cert !p1 due:2026-03-01 #ops`.
+ */
+export interface ScratchpadItem {
+	id?: string; // from the meta comment; items written before IDs existed get one on the next write
+	done: boolean;
+	text: string; // without the trailing priority/due/tag markers
+	priority?: ScratchpadPriority;
+	due?: string; // YYYY-MM-DD
+	tags?: string[];
+	depth?: number; // nesting level of a subtask (its parent is the nearest item above with a lower depth)
+	meta: string; // the <!-- timestamp [session] id:... --> comment
+}
+
+const SCRATCHPAD_PRIORITY_REGEX = /^!(p[0-3])$/;
+const SCRATCHPAD_DUE_REGEX = /^due:(\d{4}-\d{2}-\d{2})$/;
+const SCRATCHPAD_TAG_REGEX = /^#([A-Za-z][\w-]*)$/;
+
+/** Split an item line's text into the text proper and the priority/due/tag markers trailing it. */
+export function parseScratchpadText(raw: string): Pick<ScratchpadItem, "text" | "priority" | "due" | "tags"> {
+	let text = raw.trim();
+	let priority: ScratchpadPriority | undefined;
+	let due: string | undefined;
+	const tags: string[] = [];
+	for (;;) {
+		// Markers are only taken from the end, and never the first word: "#ops" alone stays text.
+		const match = text.match(/^(.*\S)\s+(\S+)$/);
+		if (!match) break;
+		const [, rest, word] = match;
+		const p = word.match(SCRATCHPAD_PRIORITY_REGEX)?.[1] as ScratchpadPriority | undefined;
+		const d = word.match(SCRATCHPAD_DUE_REGEX)?.[1];
+		const tag = word.match(SCRATCHPAD_TAG_REGEX)?.[1];
+		if (p && !priority) priority = p;
+		else if (d && isValidDailyDate(d) && !due) due = d;
+		else if (tag) tags.unshift(tag);
+		else break;
+		text = rest;
+	}
+	return { text, priority, due, tags: tags.length > 0 ? tags : undefined };
+}
+
+export function parseScratchpad(content: string): ScratchpadItem[] {
+	return parseScratchpadDocument(content).items;
+}
+
+/** Where a parsed item sits in its file: its meta comment and checkbox lines, as first written. */
+interface ScratchpadSpan {
+	start: number; // first line (the meta comment, when there is one)
+	end: number; // just past the checkbox line
+	indent: string; // the checkbox line's indent, as written
+	depth: number;
+	rendered: string; // the item as parsed, in its canonical form: unchanged items keep their lines verbatim
+}
+
+/**
+ * A scratchpad file as parsed for rewriting: its items, plus every line of the file. Headings, notes,
+ * blank lines and hand formatting outside the items that change are written back as they were.
+ */
+export interface ScratchpadDocument {
+	lines: string[]; // without the final newline
+	items: ScratchpadItem[];
+	spans: Map<ScratchpadItem, ScratchpadSpan>;
+}
+
+export function parseScratchpadDocument(content: string): ScratchpadDocument {
+	const items: ScratchpadItem[] = [];
+	const spans = new Map<ScratchpadItem, ScratchpadSpan>();
+	const lines = content.replace(/\n$/, "").split("\n");
+	// Indents of the open ancestors: an item's depth is the number of them indented less than it.
+	const indents: number[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const match = line.match(/^([ \t]*)- \[([ xX])\] (.+)$/);
+		if (match) {
+			let meta = "";
+			if (i > 0 && isScratchpadMeta(lines[i - 1])) {
+				meta = lines[i - 1].trim();
+			}
+			const indent = match[1].replace(/\t/g, "    ").length;
+			while (indents.length > 0 && indents[indents.length - 1] >= indent) indents.pop();
+			const depth = indents.length;
+			indents.push(indent);
+			const item: ScratchpadItem = {
+				id: parseEntryMeta(meta)?.id ?? undefined,
+				done: match[2].toLowerCase() === "x",
+				...parseScratchpadText(match[3]),
+				depth: depth > 0 ? depth : undefined,
+				meta,
+			};
+			items.push(item);
+			const rendered = renderScratchpadItem(item).join("\n");
+			spans.set(item, { start: meta ? i - 1 : i, end: i + 1, indent: match[1], depth, rendered });
+		}
+	}
+	return { lines: content ? lines : [], items, spans };
+}
+
+/**
+ * Whether a comment line above an item is the item's metadata: it carries a timestamp, a [session]
+ * or an `id:`. Other comments are the user's own notes and are kept as they are.
+ */
+function isScratchpadMeta(line: string): boolean {
+	const meta = parseEntryMeta(line);
+	return meta !== null && (meta.id !== null || meta.timestamp !== null || meta.session !== null);
+}
+
+/** A whole scratchpad file, written from scratch: the title heading, then the items. */
+export function serializeScratchpad(items: ScratchpadItem[], title = "Scratchpad"): string {
+	return `${[`# ${title}`, "", ...items.flatMap((item) => renderScratchpadItem(item))].join("\n")}\n`;
+}
+
+/**
+ * Write `items` back into the document they were parsed from, changing only the lines of items that
+ * changed. Items are matched to their lines by identity, else by key (see scratchpadItemKey); lines of
+ * items that are gone are dropped, and new items go right after the item before them in `items`.
+ * Kept items stay where they were in the file. A document without content gets the `title` heading.
+ */
+export function serializeScratchpadDocument(
+	doc: ScratchpadDocument,
+	items: ScratchpadItem[],
+	title = "Scratchpad",
+): string {
+	if (!doc.lines.some((line) => line.trim())) return serializeScratchpad(items, title);
+	const byKey = new Map<string, ScratchpadSpan>();
+	for (const [item, span] of doc.spans) {
+		const key = scratchpadItemKey(item);
+		if (!byKey.has(key)) byKey.set(key, span);
+	}
+	const spans = [...doc.spans.values()];
+	const kept = new Map<ScratchpadSpan, string[]>();
+	// New items' lines, by the line index they go before.
+	const inserts = new Map<number, string[]>();
+	let at = spans.length > 0 ? spans[0].start : doc.lines.length;
+	for (const item of items) {
+		let span = doc.spans.get(item) ?? byKey.get(scratchpadItemKey(item));
+		if (span && kept.has(span)) span = undefined;
+		if (!span) {
+			inserts.set(at, [...(inserts.get(at) ?? []), ...renderScratchpadItem(item)]);
+			continue;
+		}
+		const rendered = renderScratchpadItem(item, (item.depth ?? 0) === span.depth ? span.indent : undefined);
+		const unchanged = renderScratchpadItem(item).join("\n") === span.rendered;
+		kept.set(span, unchanged ? doc.lines.slice(span.start, span.end) : rendered);
+		at = span.end;
+	}
+	const starts = new Map(spans.map((span) => [span.start, span]));
+	const out: string[] = [];
+	for (let i = 0; i <= doc.lines.length; i++) {
+		const added = inserts.get(i) ?? [];
+		// Items appended to a file with no items yet start their own paragraph.
+		if (added.length > 0 && i === doc.lines.length && spans.length === 0 && out[out.length - 1]?.trim()) out.push("");
+		out.push(...added);
+		if (i === doc.lines.length) break;
+		const span = starts.get(i);
+		if (span) {
+			out.push(...(kept.get(span) ?? []));
+			i = span.end - 1;
+		} else {
+			out.push(doc.lines[i]);
+		}
+	}
+	return `${out.join("\n")}\n`;
+}
+
+/** How an item is recognized across versions of its file: by ID, else by its meta comment and text. */
+export function scratchpadItemKey(item: ScratchpadItem): string {
+	return item.id ? `id:${item.id}` : `${item.meta}\n${item.text}`;
+}
+
+/** An item's lines: its meta comment (carrying the ID), then its checklist line. */
+function renderScratchpadItem(item: ScratchpadItem, indent = "  ".repeat(item.depth ?? 0)): string[] {
+	const meta = item.id ? withScratchpadId(item.meta, item.id) : item.meta;
+	const line = formatScratchpadLine(item).trimStart();
+	return meta ? [`${indent}${meta}`, `${indent}${line}`] : [`${indent}${line}`];
+}
+
+/** An item's checklist line: indent, checkbox, text, then its priority, due date and tags. */
+export function formatScratchpadLine(item: ScratchpadItem): string {
+	const markers = [
+		item.priority && `!${item.priority}`,
+		item.due && `due:${item.due}`,
+		...(item.tags ?? []).map((t) => `#${t}`),
+	].filter(Boolean);
+	return `${"  ".repeat(item.depth ?? 0)}- [${item.done ? "x" : " "}] ${[item.text, ...markers].join(" ")}`;
+}
+
+/** Index just past the subtasks (at any depth) of the item at `index`. */
+export function scratchpadSubtreeEnd(items: ScratchpadItem[], index: number): number {
+	const depth = items[index].depth ?? 0;
+	let end = index + 1;
+	while (end < items.length && (items[end].depth ?? 0) > depth) end++;
+	return end;
+}
+
+/**
+ * Items by priority (p0 first, unprioritized last), then due date (soonest first, undated last).
+ * Subtasks stay under their parent and are sorted among their siblings.
+ */
+export function sortScratchpadItems(items: ScratchpadItem[]): ScratchpadItem[] {
+	const rank = (item: ScratchpadItem) => (item.priority ? Number(item.priority[1]) : 4);
+	const blocks: ScratchpadItem[][] = [];
+	for (let i = 0; i < items.length; ) {
+		const end = scratchpadSubtreeEnd(items, i);
+		blocks.push([items[i], ...sortScratchpadItems(items.slice(i + 1, end))]);
+		i = end;
+	}
+	return blocks.sort(([a], [b]) => rank(a) - rank(b) || (a.due ?? "9999").localeCompare(b.due ?? "9999")).flat();
+}
+
+export function isOverdue(item: ScratchpadItem, today: string): boolean {
+	return !item.done && item.due !== undefined && item.due < today;
+}
+
+/**
+ * Open items as injected into context: sorted, overdue ones flagged, parents with their subtask
+ * progress. A done parent stays while it has open subtasks.
+ */
+export function openScratchpadItems(items: ScratchpadItem[], today: string): ScratchpadItem[] {
+	const shown: ScratchpadItem[] = [];
+	items.forEach((item, i) => {
+		const subtasks = items.slice(i + 1, scratchpadSubtreeEnd(items, i));
+		if (item.done && subtasks.every((s) => s.done)) return;
+		let text = isOverdue(item, today) ? `**OVERDUE** ${item.text}` : item.text;
+		if (subtasks.length > 0) text += ` (${subtasks.filter((s) => s.done).length}/${subtasks.length} subtasks done)`;
+		shown.push({ ...item, text });
+	});
+	return sortScratchpadItems(shown);
+}
+
+/**
+ * Set an item's fields from scratchpad tool params. Markers typed at the end of `text` count too;
+ * fields given neither way are kept. "none" clears a priority or due date, and `tags: []` clears tags.
+ */
+function applyScratchpadFields(
+	item: ScratchpadItem,
+	fields: { text?: string; priority?: ScratchpadPriority | "none"; due?: string; tags?: string[] },
+) {
+	if (fields.text) {
+		const parsed = parseScratchpadText(fields.text);
+		item.text = parsed.text;
+		item.priority = parsed.priority ?? item.priority;
+		item.due = parsed.due ?? item.due;
+		item.tags = parsed.tags ?? item.tags;
+	}
+	if (fields.priority) item.priority = fields.priority === "none" ? undefined : fields.priority;
+	if (fields.due) item.due = fields.due === "none" ? undefined : fields.due;
+	if (fields.tags) item.tags = fields.tags.length > 0 ? fields.tags.map((t) => t.replace(/^#/, "")) : undefined;
+}
+
+/** The `# ` heading a scratchpad file starts with, kept when the file is rewritten. */
+export function scratchpadTitle(content: string, fallback = "Scratchpad"): string {
+	return content.match(/^# (.+)$/m)?.[1].trim() || fallback;
+}
+
+export const DEFAULT_SCRATCHPAD_LIST = "default";
+const SCRATCHPAD_LISTS_DIR = "scratchpads";
+const SCRATCHPAD_ARCHIVE_DIR = "archive";
+const SCRATCHPAD_LIST_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/;
+
+export function isValidScratchpadListName(name: string): boolean {
+	return SCRATCHPAD_LIST_NAME_REGEX.test(name);
+}
+
+function invalidScratchpadListMessage(name: string): string {
+	return `Invalid list name: ${name}. Use lowercase letters, digits, '-' and '_'.`;
+}
+
+/** The `list` param of tools that reach a scratchpad list file. */
+const SCRATCHPAD_LIST_PARAM = Type.Optional(
+	Type.String({
+		description:
+			"Scratchpad list for target 'scratchpad' (see scratchpad action 'lists'). Default: 'default' (SCRATCHPAD.md).",
+	}),
+);
+
+/** File of a scratchpad list: SCRATCHPAD.md for "default", else scratchpads/<name>.md. */
+export function scratchpadListPath(paths: ScopePaths, list = DEFAULT_SCRATCHPAD_LIST): string {
+	if (list === DEFAULT_SCRATCHPAD_LIST) return paths.scratchpadFile;
+	return path.join(paths.dir, SCRATCHPAD_LISTS_DIR, `${list}.md`);
+}
+
+/** Where an archived list goes: scratchpads/archive/<name>.md, numbered when that is taken. */
+function scratchpadArchivePath(paths: ScopePaths, list: string): string {
+	const dir = path.join(paths.dir, SCRATCHPAD_LISTS_DIR, SCRATCHPAD_ARCHIVE_DIR);
+	let file = path.join(dir, `${list}.md`);
+	for (let n = 2; fs.existsSync(file); n++) file = path.join(dir, `${list}-${n}.md`);
+	return file;
+}
+
+/** A scope's scratchpad lists: "default", then the named lists (archived ones excluded). */
+export function listScratchpadLists(paths: ScopePaths): string[] {
+	let names: string[] = [];
+	try {
+		names = fs
+			.readdirSync(path.join(paths.dir, SCRATCHPAD_LISTS_DIR))
+			.filter((f) => f.endsWith(".md"))
+			.map((f) => f.slice(0, -3))
+			.filter((name) => isValidScratchpadListName(name) && name !== DEFAULT_SCRATCHPAD_LIST)
+			.sort();
+	} catch {
+		// No named lists yet
+	}
+	return [DEFAULT_SCRATCHPAD_LIST, ...names];
+}
+
+/** Lists injected into context, per `scratchpad.inject`. */
+export function injectedScratchpadLists(paths: ScopePaths): string[] {
+	const inject = config.scratchpad.inject;
+	const lists = listScratchpadLists(paths);
+	return inject.includes("*") ? lists : lists.filter((list) => inject.includes(list));
+}
+
+/**
+ * Move a list's file (rename or archive), snapshotting it under its old path first. With `rename`,
+ * a "Scratchpad: <old name>" title follows the new name.
+ */
+async function moveScratchpadList(from: string, to: string, reason: string, rename?: { from: string; to: string }) {
+	await withFileLock(from, async () => {
+		const content = readFileSafe(from) ?? "";
+		snapshotFile(from, content, reason);
+		const moved =
+			rename && scratchpadTitle(content) === `Scratchpad: ${rename.from}`
+				? content.replace(/^# .+$/m, `# Scratchpad: ${rename.to}`)
+				: content;
+		fs.mkdirSync(path.dirname(to), { recursive: true });
+		await writeMemoryFile(to, moved, reason);
+		fs.unlinkSync(from);
+	});
+}
+
+/** Label of a list's file, relative to its scope's memory dir. */
+function scratchpadListLabel(list: string): string {
+	return list === DEFAULT_SCRATCHPAD_LIST ? "SCRATCHPAD.md" : `${SCRATCHPAD_LISTS_DIR}/${list}.md`;
+}
+
+/** An item's meta comment carrying `id` (a bare `<!-- id:... -->` for hand-written items). */
+function withScratchpadId(meta: string, id: string): string {
+	const current = parseEntryMeta(meta)?.id;
+	if (current === id) return meta;
+	if (!meta) return `<!-- id:${id} -->`;
+	if (current) return meta.replace(`id:${current}`, `id:${id}`);
+	return meta.replace(/\s*-->$/, ` id:${id} -->`);
+}
+
+/**
+ * Give `targets` (default: all items) that have no ID a fresh one, unique among `items`.
+ * Returns whether any was assigned.
+ */
+export function assignScratchpadIds(items: ScratchpadItem[], targets = items): boolean {
+	const taken = new Set(items.flatMap((i) => (i.id ? [i.id] : [])));
+	let assigned = false;
+	for (const item of targets) {
+		if (item.id) continue;
+		item.id = newEntryId(taken);
+		taken.add(item.id);
+		assigned = true;
+	}
+	return assigned;
+}
+
+/**
+ * Items `ref` refers to: the item with that ID, else the items whose text equals it, else those whose
+ * text contains it (both case-insensitive). More than one means the reference is ambiguous.
+ */
+export function findScratchpadItems(items: ScratchpadItem[], ref: string): ScratchpadItem[] {
+	const needle = ref.trim().toLowerCase();
+	const byId = items.filter((i) => i.id && i.id === needle.replace(/^id:/, ""));
+	if (byId.length > 0) return byId;
+	const exact = items.filter((i) => i.text.toLowerCase() === needle);
+	if (exact.length > 0) return exact;
+	return items.filter((i) => i.text.toLowerCase().includes(needle));
+}
+
+/** One item as shown by the scratchpad tool: its checkbox line plus its ID. */
+export function formatScratchpadItem(item: ScratchpadItem): string {
+	return `${formatScratchpadLine(item)}${item.id ? ` (id:${item.id})` : ""}`;
+}
+
+/** An item an ambiguous reference matched, with its (1-based) line in the file. */
+interface ScratchpadCandidate {
+	item: ScratchpadItem;
+	line?: number;
+}
+
+function scratchpadCandidates(doc: ScratchpadDocument, items: ScratchpadItem[]): ScratchpadCandidate[] {
+	return items.map((item) => ({ item, line: doc.spans.get(item)?.end }));
+}
+
+/** A candidate by its ID, or by its line for a hand-written item that has none yet. */
+function formatScratchpadCandidate({ item, line }: ScratchpadCandidate): string {
+	if (item.id || line === undefined) return formatScratchpadItem(item);
+	return `${formatScratchpadLine(item)} (line ${line})`;
+}
+
+// ---------------------------------------------------------------------------
+// Context builder
+// ---------------------------------------------------------------------------
+
+/** Section heading for a scope; project sections are tagged with the project name. */
+function scopeSectionLabel(paths: ScopePaths, label: string): string {
+	if (paths.scope === "project" && activeProject) {
+		return `## ${label} [project: ${activeProject.name}]`;
+	}
+	return `## ${label}`;
+}
+
+const OMITTED_LIST_LIMIT = 8;
+
+/**
+ * Rank entries for injection: `#pinned` entries first, then by overlap with the prompt's terms,
+ * with later (more recent) entries winning ties and mild relevance differences.
+ */
+export function rankContextEntries(chunks: MemoryChunk[], prompt = ""): number[] {
+	const queryTerms = [...new Set(tokenize(prompt))];
+	return chunks.map((chunk, index) => {
+		const pinned = uniqueMatches(chunk.text, TAG_REGEX).includes(PINNED_TAG) ? 2 : 0;
+		const terms = new Set(tokenize(chunk.text));
+		const relevance = queryTerms.length > 0 ? queryTerms.filter((t) => terms.has(t)).length / queryTerms.length : 0;
+		const recency = (index + 1) / chunks.length;
+		return pinned + relevance + 0.5 * recency;
+	});
+}
+
+function describeOmittedEntries(omitted: MemoryChunk[], total: number, budget: SectionBudget): string {
+	const names = omitted.slice(0, OMITTED_LIST_LIMIT).map((chunk) => {
+		if (chunk.id) return `id ${chunk.id}`;
+		const title = chunk.title || chunk.text.replace(/\s+/g, " ").slice(0, 40);
+		return JSON.stringify(title);
+	});
+	const more = omitted.length > OMITTED_LIST_LIMIT ? ` and ${omitted.length - OMITTED_LIST_LIMIT} more` : "";
+	return `[omitted ${omitted.length} of ${total} entries to fit ~${budget.maxTokens} tokens: ${names.join(", ")}${more}]`;
+}
+
+/**
+ * Like formatContextSection, but keeps or drops whole entries (see chunkMemoryContent) chosen by
+ * rankContextEntries, in file order. Falls back to line truncation when no single entry fits.
+ */
+function formatEntrySection(
+	label: string,
+	content: string,
+	fallbackMode: TruncateMode,
+	budget: SectionBudget,
+	prompt?: string,
+): string {
+	const chunks = chunkMemoryContent(content);
+	const fits = (text: string) =>
+		estimateTokens(text) <= budget.maxTokens &&
+		(!budget.maxLines || text.split("\n").length <= budget.maxLines) &&
+		(!budget.maxChars || text.length <= budget.maxChars);
+	if (chunks.length <= 1 || fits(content.trim())) {
+		return formatContextSection(label, content, fallbackMode, budget);
+	}
+
+	const scores = rankContextEntries(chunks, prompt);
+	const order = chunks.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || b - a);
+	const kept = new Set<number>();
+	let tokens = 0;
+	let lines = 0;
+	let chars = 0;
+	for (const index of order) {
+		const text = chunks[index].text;
+		// Entries are joined by a blank line: count it against the budget too.
+		const nextTokens = tokens + estimateTokens(text) + 1;
+		const nextLines = lines + text.split("\n").length + 1;
+		const nextChars = chars + text.length + 2;
+		if (nextTokens > budget.maxTokens) continue;
+		if (budget.maxLines && nextLines > budget.maxLines) continue;
+		if (budget.maxChars && nextChars > budget.maxChars) continue;
+		kept.add(index);
+		tokens = nextTokens;
+		lines = nextLines;
+		chars = nextChars;
+	}
+	if (kept.size === 0) {
+		return formatContextSection(label, content, fallbackMode, budget);
+	}
+
+	const body = chunks
+		.filter((_, i) => kept.has(i))
+		.map((c) => c.text)
+		.join("\n\n");
+	const omitted = chunks.filter((_, i) => !kept.has(i));
+	return `${label}\n\n${body}\n\n${describeOmittedEntries(omitted, chunks.length, budget)}`;
+}
+
+/**
+ * Dates of the daily logs to inject, newest first: today, then the earlier days picked by
+ * `context.dailyWindow` — the most recent ones with a log, or the previous working days.
+ */
+export function dailyWindowDates(paths: ScopePaths): string[] {
+	const { days, mode } = config.context.dailyWindow;
+	const today = todayStr();
+	const earlier: string[] = [];
+	if (mode === "working") {
+		for (let date = shiftDate(today, -1); earlier.length < days - 1; date = shiftDate(date, -1)) {
+			const weekday = weekdayOf(date);
+			if (weekday !== 0 && weekday !== 6) earlier.push(date);
+		}
+	} else {
+		let logged: string[] = [];
+		try {
+			logged = fs
+				.readdirSync(paths.dailyDir)
+				.map((f) => f.replace(/\.md$/, ""))
+				.filter((d) => isValidDailyDate(d) && d < today);
+		} catch {
+			// No daily logs yet
+		}
+		earlier.push(
+			...logged
+				.sort()
+				.reverse()
+				.slice(0, days - 1),
+		);
+	}
+	return [today, ...earlier];
+}
+
+/** A section budget scaled down by `factor` (older daily logs). */
+function decayedBudget(budget: SectionBudget, factor: number): SectionBudget {
+	return {
+		maxTokens: Math.floor(budget.maxTokens * factor),
+		maxLines: Math.max(1, Math.round(budget.maxLines * factor)),
+		maxChars: budget.maxChars === undefined ? undefined : Math.floor(budget.maxChars * factor),
+	};
+}
+
+/**
+ * The memory block injected before each turn. Budgets are in tokens: `contextTokenBudget` of the
+ * model's context window (small models get a lean injection), split between sections by their share.
+ * MEMORY.md and daily logs are trimmed a whole entry at a time, favoring entries relevant to `prompt`.
+ * `#pinned` entries are pulled out of them into a top-priority section with its own budget.
+ */
+export function buildMemoryContext(
+	searchResults?: string | QmdSearchResult[],
+	options: { contextWindow?: number; prompt?: string } = {},
+): string {
+	return assembleMemoryContext(searchResults, options).context;
+}
+
+/** One section of an injection, as recorded in its trace. */
+export interface InjectionSectionTrace {
+	label: string;
+	tokens: number;
+	chars: number;
+	truncated: string | null; // the truncation note shown to the agent, if the section was cut
+}
+
+/** A search hit offered to an injection, and whether it made it in. */
+export interface InjectionHitTrace {
+	file?: string;
+	id?: string;
+	score?: number;
+	// duplicate: already shown by another section; not-selected: past the limit, or too similar to a picked hit.
+	status: "injected" | "duplicate" | "not-selected";
+}
+
+interface MemoryContextAssembly {
+	context: string;
+	budgetTokens: number;
+	sections: InjectionSectionTrace[];
+	hits: InjectionHitTrace[];
+	truncated: boolean; // the whole context was cut to the budget
+}
+
+function traceSection(section: string): InjectionSectionTrace {
+	const lines = section.split("\n");
+	const last = lines[lines.length - 1];
+	return {
+		label: lines[0].replace(/^#+\s*/, ""),
+		tokens: estimateTokens(section),
+		chars: section.length,
+		truncated: last.startsWith("[truncated") || last.startsWith("[omitted") ? last : null,
+	};
+}
+
+/** buildMemoryContext, plus what went into it: section sizes and the fate of each search hit. */
+function assembleMemoryContext(
+	searchResults: string | QmdSearchResult[] | undefined,
+	options: { contextWindow?: number; prompt?: string },
+): MemoryContextAssembly {
+	ensureDirs();
+	const totalTokens = contextTokenBudget(options.contextWindow);
+	const budgets = {
+		pinned: sectionBudget(config.context.pinned, totalTokens),
+		scratchpad: sectionBudget(config.context.scratchpad, totalTokens),
+		daily: sectionBudget(config.context.daily, totalTokens),
+		search: sectionBudget(config.context.search, totalTokens),
+		longTerm: sectionBudget(config.context.longTerm, totalTokens),
+	};
+	// Priority order: pinned > scratchpad > today's daily > search results > MEMORY.md > earlier daily logs.
+	// Within each tier the project scope (when active) comes before the global one.
+	const sections: string[] = [];
+	const scopes = activeScopes();
+
+	for (const paths of scopes) {
+		const pinned = listPinnedEntries(paths);
+		if (pinned.length === 0) continue;
+		const content = pinned
+			.map(({ entry }) => (entry.meta ? `${entry.meta}\n${entry.body}` : entry.body))
+			.join("\n\n");
+		const section = formatEntrySection(
+			scopeSectionLabel(paths, "Pinned memories"),
+			content,
+			"start",
+			budgets.pinned,
+			options.prompt,
+		);
+		if (section) sections.push(section);
+	}
+
+	const today = todayStr();
+
+	for (const paths of scopes) {
+		const lists = injectedScratchpadLists(paths).flatMap((list) => {
+			const content = readFileSafe(scratchpadListPath(paths, list)) ?? "";
+			const items = openScratchpadItems(parseScratchpad(content), today);
+			return items.length > 0 ? [{ list, title: scratchpadTitle(content), items }] : [];
+		});
+		// Lists with open items split the scratchpad budget evenly.
+		for (const { list, title, items } of lists) {
+			const section = formatContextSection(
+				scopeSectionLabel(paths, `${scratchpadListLabel(list)} (working context)`),
+				serializeScratchpad(items, title),
+				"start",
+				decayedBudget(budgets.scratchpad, 1 / lists.length),
+			);
+			if (section) sections.push(section);
+		}
+	}
+
+	for (const paths of scopes) {
+		const todayContent = withoutPinnedEntries(readFileSafe(dailyPath(today, paths.scope)) ?? "");
+		if (!todayContent.trim()) continue;
+		const section = formatEntrySection(
+			scopeSectionLabel(paths, `Daily log: ${today} (today)`),
+			todayContent,
+			"end",
+			budgets.daily,
+			options.prompt,
+		);
+		if (section) sections.push(section);
+	}
+
+	// Search results go here, but are chosen last: hits already shown by another section are skipped.
+	const searchSlot = sections.length;
+
+	for (const paths of scopes) {
+		const longTerm = withoutPinnedEntries(readFileSafe(paths.memoryFile) ?? "");
+		if (!longTerm.trim()) continue;
+		const section = formatEntrySection(
+			scopeSectionLabel(paths, "MEMORY.md (long-term)"),
+			longTerm,
+			"middle",
+			budgets.longTerm,
+			options.prompt,
+		);
+		if (section) sections.push(section);
+	}
+
+	// Earlier days in the window, newest first, each with `decay` times the budget of the day after it.
+	const earlierDays = scopes.flatMap((paths) =>
+		dailyWindowDates(paths)
+			.map((date, age) => ({ paths, date, age }))
+			.slice(1),
+	);
+	earlierDays.sort((a, b) => a.age - b.age);
+	for (const { paths, date, age } of earlierDays) {
+		const content = withoutPinnedEntries(readFileSafe(dailyPath(date, paths.scope)) ?? "");
+		if (!content.trim()) continue;
+		const section = formatEntrySection(
+			scopeSectionLabel(paths, `Daily log: ${date} (${relativeDayLabel(date, today)})`),
+			content,
+			"end",
+			decayedBudget(budgets.daily, config.context.dailyWindow.decay ** age),
+			options.prompt,
+		);
+		if (section) sections.push(section);
+	}
+
+	let searchText = typeof searchResults === "string" ? searchResults : undefined;
+	let hits: InjectionHitTrace[] = [];
+	if (Array.isArray(searchResults)) {
+		const injected = sections.join("\n");
+		const selected = selectInjectedResults(searchResults, injected);
+		const seen = injected.replace(/\s+/g, " ");
+		searchText = formatInjectedResults(selected);
+		hits = searchResults.map((r) => ({
+			file: getQmdResultPath(r),
+			id: r.id,
+			score: r.score,
+			status: selected.includes(r) ? "injected" : isAlreadyInjected(r, seen) ? "duplicate" : "not-selected",
+		}));
+	}
+	if (searchText?.trim()) {
+		const section = formatContextSection(
+			"## Relevant memories (auto-retrieved)",
+			searchText,
+			"start",
+			budgets.search,
+		);
+		if (section) sections.splice(searchSlot, 0, section);
+	}
+
+	const assembly = { budgetTokens: totalTokens, sections: sections.map(traceSection), hits, truncated: false };
+	if (sections.length === 0) {
+		return { ...assembly, context: "" };
+	}
+
+	const context = `# Memory\n\n${sections.join("\n\n---\n\n")}`;
+	const result = buildTokenPreview(context, {
+		maxTokens: totalTokens,
+		maxLines: 0,
+		maxChars: config.context.maxChars,
+		mode: "start",
+	});
+	if (!result.truncated) return { ...assembly, context };
+	return {
+		...assembly,
+		context: `${result.preview}\n\n[truncated overall context: showing ${result.previewChars}/${result.totalChars} chars, ~${result.tokens}/${totalTokens} tokens]`,
+		truncated: true,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// QMD integration
+// ---------------------------------------------------------------------------
+
+type ExecFileFn = typeof execFile;
+let execFileFn: ExecFileFn = execFile;
+
+let qmdAvailable = false;
+// Collections known to exist, as "<collection>\0<dir>": ensureIndex asks qmd once per scope, not per search.
+const qmdIndexedCollections = new Set<string>();
+let updateTimer: ReturnType<typeof setTimeout> | null = null;
+let exitSummaryReason: ExitSummaryReason | null = null;
+let terminalInputUnsubscribe: (() => void) | null = null;
+
+/** Override execFile implementation (for testing). */
+export function _setExecFileForTest(fn: ExecFileFn) {
+	execFileFn = fn;
+	qmdIndexedCollections.clear();
+}
+
+/** Reset execFile implementation (for testing). */
+export function _resetExecFileForTest() {
+	execFileFn = execFile;
+	qmdIndexedCollections.clear();
+}
+
+/** Set qmd availability flag (for testing). */
+export function _setQmdAvailable(value: boolean) {
+	qmdAvailable = value;
+}
+
+/** Get current qmd availability flag (for testing). */
+export function _getQmdAvailable(): boolean {
+	return qmdAvailable;
+}
+
+/** Get current update timer (for testing). */
+export function _getUpdateTimer(): ReturnType<typeof setTimeout> | null {
+	return updateTimer;
+}
 
-type ExecFileFn = typeof execFile;
-let execFileFn: ExecFileFn = execFile;
+/** Clear the update timer (for testing). */
+export function _clearUpdateTimer() {
+	if (updateTimer) {
+		clearTimeout(updateTimer);
+		updateTimer = null;
+	}
+}
+
+const QMD_REPO_URL = "https://github.com/tobi/qmd";
+
+export function qmdInstallInstructions(): string {
+	return [
+		"qmd not found — memory_search is using the built-in keyword index.",
+		"",
+		"For semantic and deep search, install qmd (requires Bun):",
+		`  bun install -g ${QMD_REPO_URL}`,
+		"  # ensure ~/.bun/bin is in your PATH",
+		"",
+		"Then set up the collection (one-time):",
+		`  qmd collection add ${MEMORY_DIR} --name ${config.qmd.collection}`,
+		"  qmd embed",
+	].join("\n");
+}
+
+export function qmdCollectionInstructions(): string {
+	return [
+		`qmd collection ${config.qmd.collection} is not configured.`,
+		"",
+		"Set up the collection (one-time):",
+		`  qmd collection add ${MEMORY_DIR} --name ${config.qmd.collection}`,
+		"  qmd embed",
+	].join("\n");
+}
+
+/** qmd collection for a scope. Each project gets its own collection so results never cross projects. */
+export function qmdCollectionName(scope: MemoryScope = "global"): string | null {
+	if (scope === "global") return config.qmd.collection;
+	if (!activeProject) return null;
+	const slug =
+		activeProject.name
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "project";
+	const hash = createHash("sha1").update(activeProject.root).digest("hex").slice(0, 8);
+	return `${config.qmd.collection}-${slug}-${hash}`;
+}
+
+/** Auto-create the qmd collection and path contexts for a scope. */
+export async function setupQmdCollection(scope: MemoryScope = "global"): Promise<boolean> {
+	const paths = getScopePaths(scope);
+	const collection = qmdCollectionName(scope);
+	if (!paths || !collection) return false;
+	try {
+		await new Promise<void>((resolve, reject) => {
+			execFileFn("qmd", ["collection", "add", paths.dir, "--name", collection], { timeout: 10_000 }, (err) =>
+				err ? reject(err) : resolve(),
+			);
+		});
+	} catch {
+		// Collection may already exist under a different name — not critical
+		return false;
+	}
+
+	// Add path contexts (best-effort, ignore errors)
+	const contexts: [string, string][] = [
+		["/daily", "Daily append-only work logs organized by date"],
+		["/", "Curated long-term memory: decisions, preferences, facts, lessons"],
+	];
+	for (const [ctxPath, desc] of contexts) {
+		try {
+			await new Promise<void>((resolve, reject) => {
+				execFileFn("qmd", ["context", "add", ctxPath, desc, "-c", collection], { timeout: 10_000 }, (err) =>
+					err ? reject(err) : resolve(),
+				);
+			});
+		} catch {
+			// Ignore — context may already exist
+		}
+	}
+	return true;
+}
+
+export function detectQmd(): Promise<boolean> {
+	return new Promise((resolve) => {
+		// qmd doesn't reliably support --version; use a fast command that exits 0 when available.
+		execFileFn("qmd", ["status"], { timeout: 5_000 }, (err) => {
+			resolve(!err);
+		});
+	});
+}
+
+export function checkCollection(name: string): Promise<boolean> {
+	return new Promise((resolve) => {
+		execFileFn("qmd", ["collection", "list", "--json"], { timeout: 10_000 }, (err, stdout) => {
+			if (err) {
+				resolve(false);
+				return;
+			}
+			try {
+				const collections = JSON.parse(stdout);
+				if (Array.isArray(collections)) {
+					resolve(
+						collections.some((entry) => {
+							if (typeof entry === "string") return entry === name;
+							if (entry && typeof entry === "object" && "name" in entry) {
+								return (entry as { name?: string }).name === name;
+							}
+							return false;
+						}),
+					);
+				} else {
+					// qmd may output an object with a collections array or similar
+					resolve(stdout.includes(name));
+				}
+			} catch {
+				// Fallback: just check if the name appears in the output
+				resolve(stdout.includes(name));
+			}
+		});
+	});
+}
+
+export function scheduleQmdUpdate() {
+	if (getQmdUpdateMode() !== "background") return;
+	if (!qmdAvailable) return;
+	if (updateTimer) clearTimeout(updateTimer);
+	updateTimer = setTimeout(() => {
+		updateTimer = null;
+		execFileFn("qmd", ["update"], { timeout: 30_000 }, () => {});
+	}, config.qmd.updateDebounceMs);
+}
+
+async function runQmdUpdateNow() {
+	if (getQmdUpdateMode() !== "background") return;
+	if (!qmdAvailable) return;
+	await new Promise<void>((resolve) => {
+		execFileFn("qmd", ["update"], { timeout: 30_000 }, () => resolve());
+	});
+}
+
+/** Search every active scope with one backend. Null when no scope is indexed. */
+async function searchActiveScopes(
+	backend: MemorySearchBackend,
+	mode: SearchMode,
+	query: string,
+	limit: number,
+	signal?: AbortSignal,
+): Promise<QmdSearchResult[] | null> {
+	const perScope = await Promise.all(
+		activeScopes().map(async ({ scope }): Promise<QmdSearchResult[] | null> => {
+			if (!(await backend.ensureIndex(scope))) return null;
+			const { results } = await backend.search(mode, query, { limit, scope, signal });
+			return results.map((r) => ({ ...r, scope }));
+		}),
+	);
+	const indexed = perScope.filter((r): r is QmdSearchResult[] => r !== null);
+	return indexed.length > 0 ? mergeSearchResults(indexed, limit) : null;
+}
+
+export type InjectionSearchMode = SearchMode | "hybrid";
+
+// Conversational filler that says nothing about what to look up ("ok do that for the other one too").
+const QUERY_FILLER = new Set(
+	(
+		"again also another any anything go going got just let lets like make more now ok okay one ones other others " +
+		"please same something sure thanks thank thing things try want way well yeah yes"
+	).split(" "),
+);
+
+/**
+ * Injection search query for a prompt. Follow-ups like "ok do that for the other service too" say
+ * little on their own, so the prompt's keywords are extended with the words of `#tags` and `[[links]]`
+ * mentioned in the prompt or `recentMessages` (oldest first), then with the terms that recur most in
+ * those messages, newer ones weighing more. Stopwords and filler are dropped.
+ */
+export function buildInjectionQuery(prompt: string, recentMessages: string[] = []): string {
+	const { turns, maxTerms, expandTags } = config.search.injection.query;
+	const recent = turns > 0 ? recentMessages.slice(-turns) : [];
+	const keywords = (text: string) => tokenize(text).filter((t) => !QUERY_FILLER.has(t));
+	const terms: string[] = [];
+	const add = (term: string) => {
+		if (!terms.includes(term)) terms.push(term);
+	};
+
+	for (const term of keywords(prompt)) add(term);
+	if (expandTags) {
+		for (const text of [prompt, ...recent]) {
+			const references = [...uniqueMatches(text, TAG_REGEX), ...uniqueMatches(text, LINK_REGEX)];
+			for (const term of references.flatMap(keywords)) add(term);
+		}
+	}
+
+	const salience = new Map<string, number>();
+	recent.forEach((text, i) => {
+		const weight = (i + 1) / recent.length;
+		for (const term of keywords(text)) {
+			if (term.length < 3 || /^\d+$/.test(term) || terms.includes(term)) continue;
+			salience.set(term, (salience.get(term) ?? 0) + weight);
+		}
+	});
+	const salient = [...salience].sort((a, b) => b[1] - a[1]).slice(0, maxTerms);
+	for (const [term] of salient) add(term);
+	return terms.join(" ");
+}
+
+/** How one selective-injection search went, for comparing modes in recall evals. */
+export interface InjectionSearchTelemetry {
+	timestamp: string;
+	query: string;
+	backend: string;
+	requested: InjectionSearchMode;
+	// The results injected: the requested mode, or keyword results when the slower search missed
+	// its deadline, failed, found nothing, or the backend has no such mode.
+	used: InjectionSearchMode | "keyword-fallback";
+	latencyMs: Partial<Record<SearchMode, number>>;
+	timedOut: SearchMode[];
+	results: number; // candidates at or above search.injection.minScore
+	belowThreshold: number;
+}
+
+let lastInjectionSearch: InjectionSearchTelemetry | null = null;
+
+/** Telemetry of the most recent selective-injection search (null before the first one). */
+export function getLastInjectionSearch(): InjectionSearchTelemetry | null {
+	return lastInjectionSearch;
+}
+
+/**
+ * Keep the telemetry; with `search.injection.telemetryFile` (or PI_MEMORY_SEARCH_TELEMETRY=<file>),
+ * also append it there as a JSON line.
+ */
+function recordInjectionSearch(telemetry: InjectionSearchTelemetry) {
+	lastInjectionSearch = telemetry;
+	const file = process.env.PI_MEMORY_SEARCH_TELEMETRY || config.search.injection.telemetryFile;
+	if (!file) return;
+	try {
+		fs.appendFileSync(file, `${JSON.stringify(telemetry)}\n`, "utf-8");
+	} catch {
+		// Telemetry is best-effort
+	}
+}
+
+/** What one before_agent_start injection contained and how it was put together (see /memory-explain). */
+export interface InjectionTrace {
+	timestamp: string;
+	sessionId?: string;
+	prompt: string;
+	query: string;
+	search: InjectionSearchTelemetry | null; // null when no search ran (empty query, PI_MEMORY_NO_SEARCH, error)
+	hits: InjectionHitTrace[];
+	budgetTokens: number;
+	tokens: number;
+	chars: number;
+	truncated: boolean;
+	sections: InjectionSectionTrace[];
+	timingsMs: { query: number; search: number; build: number; total: number };
+}
+
+let lastInjectionTrace: InjectionTrace | null = null;
+
+/** Trace of the most recent injection (null before the first one). */
+export function getLastInjectionTrace(): InjectionTrace | null {
+	return lastInjectionTrace;
+}
+
+/** Keep the trace; with `trace.file` (or PI_MEMORY_TRACE=<file>), also append it there as a JSON line. */
+function recordInjectionTrace(trace: InjectionTrace) {
+	lastInjectionTrace = trace;
+	const file = process.env.PI_MEMORY_TRACE || config.trace.file;
+	if (!file) return;
+	try {
+		fs.appendFileSync(file, `${JSON.stringify(trace)}\n`, "utf-8");
+	} catch {
+		// Tracing is best-effort
+	}
+}
+
+/** An injection trace as the human-readable report shown by /memory-explain. */
+export function formatInjectionTrace(trace: InjectionTrace): string {
+	const lines = [`Last memory injection: ${trace.timestamp}${trace.sessionId ? ` [${trace.sessionId}]` : ""}`];
+	lines.push(`Prompt: ${JSON.stringify(trace.prompt)}`);
+	lines.push(`Query: ${trace.query ? JSON.stringify(trace.query) : "(none)"}`);
+
+	const { search } = trace;
+	if (search) {
+		const latency = Object.entries(search.latencyMs)
+			.map(([mode, ms]) => `${mode} ${ms}ms${search.timedOut.includes(mode as SearchMode) ? " (timed out)" : ""}`)
+			.join(", ");
+		const below = search.belowThreshold > 0 ? `, ${search.belowThreshold} below minScore` : "";
+		lines.push(`Search: ${search.used} via ${search.backend} (requested ${search.requested}; ${latency})${below}`);
+	} else {
+		lines.push("Search: not run");
+	}
+	if (trace.hits.length > 0) {
+		lines.push(
+			`Search hits (${trace.hits.filter((h) => h.status === "injected").length}/${trace.hits.length} injected):`,
+		);
+		for (const hit of trace.hits) {
+			const score = hit.score === undefined ? "-" : hit.score.toFixed(2);
+			const id = hit.id ? ` id:${hit.id}` : "";
+			lines.push(`- ${score} ${hit.file ?? "(unknown file)"}${id}: ${hit.status}`);
+		}
+	}
+
+	const overall = trace.truncated ? ", cut to fit" : "";
+	lines.push(
+		`Sections (~${trace.tokens}/${trace.budgetTokens} tokens, ${trace.chars} chars${overall}):`,
+		...(trace.sections.length > 0
+			? trace.sections.map(
+					(s) => `- ${s.label}: ~${s.tokens} tokens, ${s.chars} chars${s.truncated ? `\n  ${s.truncated}` : ""}`,
+				)
+			: ["- (nothing injected)"]),
+	);
+	const t = trace.timingsMs;
+	lines.push(`Timings: query ${t.query}ms, search ${t.search}ms, build ${t.build}ms, total ${t.total}ms`);
+	return lines.join("\n");
+}
+
+interface TimedSearch {
+	results: QmdSearchResult[] | null;
+	ms: number;
+	timedOut: boolean;
+}
+
+/**
+ * Run a search against a deadline. Errors and missed deadlines give null results; a missed deadline
+ * also aborts `run`'s signal, so a search process still running is killed rather than left behind.
+ */
+async function timedSearch(
+	run: (signal: AbortSignal) => Promise<QmdSearchResult[] | null>,
+	timeoutMs: number,
+): Promise<TimedSearch> {
+	const start = performance.now();
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const deadline = new Promise<"timeout">((resolve) => {
+		timer = setTimeout(() => {
+			controller.abort();
+			resolve("timeout");
+		}, timeoutMs);
+	});
+	try {
+		const outcome = await Promise.race([run(controller.signal).catch(() => null), deadline]);
+		const ms = Math.round(performance.now() - start);
+		return outcome === "timeout" ? { results: null, ms, timedOut: true } : { results: outcome, ms, timedOut: false };
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// Reciprocal rank fusion constant: dampens the weight of top ranks so both lists contribute.
+const RRF_K = 60;
+
+/** Merge ranked result lists by reciprocal rank fusion, counting a hit found by several lists once. */
+export function fuseSearchResults(lists: QmdSearchResult[][], limit: number): QmdSearchResult[] {
+	const fused = new Map<string, { result: QmdSearchResult; score: number }>();
+	for (const list of lists) {
+		list.forEach((result, rank) => {
+			const key = `${result.scope ?? ""}:${result.id ?? `${getQmdResultPath(result)}:${getQmdResultText(result).trim()}`}`;
+			const previous = fused.get(key);
+			fused.set(key, {
+				result: previous?.result ?? result,
+				score: (previous?.score ?? 0) + 1 / (RRF_K + rank + 1),
+			});
+		});
+	}
+	return [...fused.values()]
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+		.map(({ result }) => result);
+}
+
+// Candidates fetched per injected hit, so deduplication and diversity have something to choose from.
+const INJECTION_CANDIDATE_FACTOR = 3;
+// Two hits from the same file count as at least this similar, so one day's log can't fill every slot.
+const SAME_FILE_SIMILARITY = 0.5;
+
+/** Hit text without metadata comments and qmd's `@@` position lines. */
+function resultBodyLines(r: QmdSearchResult): string[] {
+	return getQmdResultText(r)
+		.split("\n")
+		.map((l) => l.replace(/\s+/g, " ").trim())
+		.filter((l) => l && !l.startsWith("@@") && !METADATA_LINE_REGEX.test(l));
+}
+
+/** Whether a hit's entry (by ID) or every line of its text is already in `injected` (whitespace-collapsed). */
+function isAlreadyInjected(r: QmdSearchResult, injected: string): boolean {
+	if (r.id && injected.includes(`id:${r.id}`)) return true;
+	const lines = resultBodyLines(r);
+	return lines.length > 0 && lines.every((l) => injected.includes(l));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 && b.size === 0) return 0;
+	let shared = 0;
+	for (const term of a) if (b.has(term)) shared++;
+	return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Hits to inject, from candidates already filtered by score: those not duplicating `injected` (the
+ * other context sections), picked by maximal marginal relevance — score, minus `search.injection.diversity`
+ * times the similarity to hits already picked (shared words, or the same file).
+ */
+export function selectInjectedResults(
+	candidates: QmdSearchResult[],
+	injected = "",
+	limit = config.search.injection.limit,
+): QmdSearchResult[] {
+	const seen = injected.replace(/\s+/g, " ");
+	const fresh = candidates.filter((r) => !isAlreadyInjected(r, seen));
+	const terms = fresh.map((r) => new Set(tokenize(resultBodyLines(r).join(" "))));
+	const files = fresh.map((r) => `${r.scope ?? ""}:${(getQmdResultPath(r) ?? "").toLowerCase()}`);
+	const similarity = (i: number, j: number) =>
+		Math.max(jaccard(terms[i], terms[j]), files[i] === files[j] ? SAME_FILE_SIMILARITY : 0);
+
+	const diversity = config.search.injection.diversity;
+	const picked: number[] = [];
+	while (picked.length < Math.min(limit, fresh.length)) {
+		let best = -1;
+		let bestScore = Number.NEGATIVE_INFINITY;
+		for (let i = 0; i < fresh.length; i++) {
+			if (picked.includes(i)) continue;
+			const redundancy = Math.max(0, ...picked.map((j) => similarity(i, j)));
+			const score = (1 - diversity) * (fresh[i].score ?? 0) - diversity * redundancy;
+			if (score > bestScore) {
+				best = i;
+				bestScore = score;
+			}
+		}
+		picked.push(best);
+	}
+	return picked.map((i) => fresh[i]);
+}
+
+/** Search hits as the markdown of the "Relevant memories" section. */
+export function formatInjectedResults(results: QmdSearchResult[]): string {
+	return results
+		.map((r) => {
+			const text = getQmdResultText(r);
+			if (!text.trim()) return null;
+			const filePath = getQmdResultPath(r);
+			const filePart = filePath ? `_${filePath}${r.scope === "project" ? " (project)" : ""}_` : "";
+			return filePart ? `${filePart}\n${text.trim()}` : text.trim();
+		})
+		.filter(Boolean)
+		.join("\n\n---\n\n");
+}
+
+/**
+ * Search for memories relevant to the user's prompt, as formatted markdown (empty on error).
+ * buildMemoryContext does the same with findRelevantMemories, also skipping hits it already injects.
+ */
+export async function searchRelevantMemories(prompt: string): Promise<string> {
+	return formatInjectedResults(selectInjectedResults(await findRelevantMemories(prompt)));
+}
+
+/**
+ * Injection candidates for a query with `search.injection.mode`, best first, scoring at least
+ * `search.injection.minScore` (hits without a score are kept). Keyword search always runs as the fast fallback. Empty on error.
+ */
+export async function findRelevantMemories(prompt: string): Promise<QmdSearchResult[]> {
+	if (!prompt.trim()) return [];
+
+	// Sanitize: strip control chars, limit to 200 chars for the search query
+	const sanitized = prompt
+		// biome-ignore lint/suspicious/noControlCharactersInRegex: we intentionally strip control chars.
+		.replace(/[\x00-\x1f\x7f]/g, " ")
+		.trim()
+		.slice(0, 200);
+	if (!sanitized) return [];
+
+	try {
+		const backend = await resolveSearchBackend();
+		const { mode: requested, minScore, timeoutMs } = config.search.injection;
+		const limit = config.search.injection.limit * INJECTION_CANDIDATE_FACTOR;
+		const keyword = async (signal: AbortSignal) => {
+			const results = await searchActiveScopes(backend, "keyword", sanitized, limit, signal);
+			if (results !== null || backend === localSearchBackend) return results;
+			// Configured backend has no index yet: fall back to the built-in one.
+			return searchActiveScopes(localSearchBackend, "keyword", sanitized, limit, signal);
+		};
+		const slowMode: SearchMode | null =
+			requested === "keyword" ? null : requested === "hybrid" ? "semantic" : requested;
+		const slowSupported = slowMode !== null && backend.modes.includes(slowMode);
+
+		const [fast, slow] = await Promise.all([
+			timedSearch(keyword, config.search.timeoutMs),
+			slowMode && slowSupported
+				? timedSearch(
+						(signal) => searchActiveScopes(backend, slowMode, sanitized, limit, signal),
+						timeoutMs[slowMode],
+					)
+				: null,
+		]);
+
+		let results: QmdSearchResult[] = fast.results ?? [];
+		let used: InjectionSearchTelemetry["used"] = requested === "keyword" ? "keyword" : "keyword-fallback";
+		if (slowMode && slow?.results?.length) {
+			results = requested === "hybrid" ? fuseSearchResults([results, slow.results], limit) : slow.results;
+			used = requested;
+		}
+		const latencyMs: InjectionSearchTelemetry["latencyMs"] = { keyword: fast.ms };
+		const timedOut: SearchMode[] = fast.timedOut ? ["keyword"] : [];
+		if (slowMode && slow) {
+			latencyMs[slowMode] = slow.ms;
+			if (slow.timedOut) timedOut.push(slowMode);
+		}
+		const candidates = results.filter((r) => r.score === undefined || r.score >= minScore);
+		recordInjectionSearch({
+			timestamp: nowTimestamp(),
+			query: sanitized,
+			backend: backend.name,
+			requested,
+			used,
+			latencyMs,
+			timedOut,
+			results: candidates.length,
+			belowThreshold: results.length - candidates.length,
+		});
+		return candidates;
+	} catch {
+		return [];
+	}
+}
+
+export interface QmdSearchResult {
+	id?: string; // memory entry ID, when the hit maps to a single entry
+	path?: string;
+	file?: string;
+	score?: number;
+	content?: string;
+	chunk?: string;
+	snippet?: string;
+	title?: string;
+	[key: string]: unknown;
+}
+
+/** Merge per-scope result lists by score (stable, so earlier scopes win ties) and keep the top `limit`. */
+function mergeSearchResults(lists: QmdSearchResult[][], limit: number): QmdSearchResult[] {
+	return lists
+		.flat()
+		.map((r, i) => ({ r, i }))
+		.sort((a, b) => (b.r.score ?? 0) - (a.r.score ?? 0) || a.i - b.i)
+		.slice(0, limit)
+		.map(({ r }) => r);
+}
+
+function formatSearchResults(results: QmdSearchResult[], showScope: boolean): string {
+	return results
+		.map((r, i) => {
+			const parts: string[] = [`### Result ${i + 1}`];
+			const filePath = getQmdResultPath(r);
+			if (filePath) parts.push(`**File:** ${filePath}`);
+			if (r.id) parts.push(`**Entry:** ${r.id}`);
+			if (showScope && r.scope) parts.push(`**Scope:** ${r.scope}`);
+			if (r.score != null) parts.push(`**Score:** ${r.score}`);
+			const text = getQmdResultText(r);
+			if (text) parts.push(`\n${text}`);
+			return parts.join("\n");
+		})
+		.join("\n\n---\n\n");
+}
+
+function getQmdResultPath(r: QmdSearchResult): string | undefined {
+	return r.path ?? r.file;
+}
+
+function getQmdResultText(r: QmdSearchResult): string {
+	return r.content ?? r.chunk ?? r.snippet ?? "";
+}
+
+function stripAnsi(text: string): string {
+	// qmd may emit spinners/progress bars even with --json, especially on first model download.
+	// Strip ANSI CSI/OSC sequences so we can reliably find and parse JSON payloads.
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping ANSI escape sequences
+	return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, "").replace(/\u001b\][^\u0007]*(\u0007|\u001b\\)/g, "");
+}
+
+function parseQmdJson(stdout: string): unknown {
+	const trimmed = stdout.trim();
+	if (!trimmed) return [];
+	if (trimmed === "No results found." || trimmed === "No results found") return [];
 
-let qmdAvailable = false;
-let updateTimer: ReturnType<typeof setTimeout> | null = null;
-let exitSummaryReason: ExitSummaryReason | null = null;
-let terminalInputUnsubscribe: (() => void) | null = null;
+	const cleaned = stripAnsi(stdout);
+	const lines = cleaned.split(/\r?\n/);
+	const startLine = lines.findIndex((l) => {
+		const s = l.trimStart();
+		return s.startsWith("[") || s.startsWith("{");
+	});
+	if (startLine === -1) {
+		throw new Error(`Failed to parse qmd output: ${trimmed.slice(0, 200)}`);
+	}
 
-/** Override execFile implementation (for testing). */
-export function _setExecFileForTest(fn: ExecFileFn) {
-	execFileFn = fn;
+	const jsonText = lines.slice(startLine).join("\n").trim();
+	if (!jsonText) return [];
+	return JSON.parse(jsonText);
 }
 
-/** Reset execFile implementation (for testing). */
-export function _resetExecFileForTest() {
-	execFileFn = execFile;
-}
+export function runQmdSearch(
+	mode: "keyword" | "semantic" | "deep",
+	query: string,
+	limit: number,
+	collection = config.qmd.collection,
+	signal?: AbortSignal,
+): Promise<{ results: QmdSearchResult[]; stderr: string }> {
+	const subcommand = mode === "keyword" ? "search" : mode === "semantic" ? "vsearch" : "query";
+	const args = [subcommand, "--json", "-c", collection, "-n", String(limit), query];
 
-/** Set qmd availability flag (for testing). */
-export function _setQmdAvailable(value: boolean) {
-	qmdAvailable = value;
+	return new Promise((resolve, reject) => {
+		execFileFn("qmd", args, { timeout: 60_000, signal }, (err, stdout, stderr) => {
+			if (err) {
+				reject(new Error(stderr?.trim() || err.message));
+				return;
+			}
+			try {
+				const parsed = parseQmdJson(stdout);
+				const results = Array.isArray(parsed) ? parsed : ((parsed as any).results ?? (parsed as any).hits ?? []);
+				resolve({ results, stderr: stderr ?? "" });
+			} catch (parseErr) {
+				if (parseErr instanceof Error) {
+					reject(parseErr);
+					return;
+				}
+				reject(new Error(`Failed to parse qmd output: ${stdout.slice(0, 200)}`));
+			}
+		});
+	});
 }
 
-/** Get current qmd availability flag (for testing). */
-export function _getQmdAvailable(): boolean {
-	return qmdAvailable;
+// ---------------------------------------------------------------------------
+// Built-in local search (BM25 over memory files, used when qmd is unavailable)
+// ---------------------------------------------------------------------------
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set(
+	(
+		"a an and are as at be but by can could did do does for from had has have how i if in into is it its " +
+		"me my no not of on or our should so that the their them then there these they this to too was we were " +
+		"what when where which who why will with would you your"
+	).split(" "),
+);
+
+const METADATA_LINE_REGEX = /^<!--.*-->$/;
+const HEADING_LINE_REGEX = /^#{1,6}\s/;
+
+export interface MemoryChunk {
+	id: string | null;
+	title: string;
+	text: string;
 }
 
-/** Get current update timer (for testing). */
-export function _getUpdateTimer(): ReturnType<typeof setTimeout> | null {
-	return updateTimer;
+interface IndexedChunk extends MemoryChunk {
+	relPath: string;
+	length: number;
+	termFreqs: Map<string, number>;
 }
 
-/** Clear the update timer (for testing). */
-export function _clearUpdateTimer() {
-	if (updateTimer) {
-		clearTimeout(updateTimer);
-		updateTimer = null;
-	}
+interface LocalIndex {
+	signature: string;
+	chunks: IndexedChunk[];
+	docFreqs: Map<string, number>;
+	avgLength: number;
 }
 
-const QMD_REPO_URL = "https://github.com/tobi/qmd";
+const localIndexCache = new Map<string, LocalIndex>();
 
-export function qmdInstallInstructions(): string {
-	return [
-		"memory_search requires qmd.",
-		"",
-		"Install qmd (requires Bun):",
-		`  bun install -g ${QMD_REPO_URL}`,
-		"  # ensure ~/.bun/bin is in your PATH",
-		"",
-		"Then set up the collection (one-time):",
-		`  qmd collection add ${MEMORY_DIR} --name pi-memory`,
-		"  qmd embed",
-	].join("\n");
+/** Lowercase word tokens without stopwords. `#tags` and `[[links]]` reduce to their words. */
+export function tokenize(text: string): string[] {
+	const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+	return words.filter((w) => !STOPWORDS.has(w));
 }
 
-export function qmdCollectionInstructions(): string {
-	return [
-		"qmd collection pi-memory is not configured.",
-		"",
-		"Set up the collection (one-time):",
-		`  qmd collection add ${MEMORY_DIR} --name pi-memory`,
-		"  qmd embed",
-	].join("\n");
+/**
+ * Split a memory file into entries. Entries written by the tools start at their
+ * `<!-- ... -->` metadata comment; hand-written text before the first one (or a file without
+ * any) is split on headings. Headings inside a tool-written entry stay with that entry.
+ */
+export function chunkMemoryContent(content: string): MemoryChunk[] {
+	const lines = content.split("\n");
+	const groups: string[][] = [];
+	let current: string[] = [];
+	let seenMetadata = false;
+
+	for (const line of lines) {
+		const trimmed = line.trim();
+		const isMetadata = METADATA_LINE_REGEX.test(trimmed);
+		const startsEntry = isMetadata || (!seenMetadata && HEADING_LINE_REGEX.test(trimmed));
+		if (isMetadata) seenMetadata = true;
+		if (startsEntry && current.some((l) => l.trim())) {
+			groups.push(current);
+			current = [];
+		}
+		current.push(line);
+	}
+	if (current.some((l) => l.trim())) groups.push(current);
+
+	return groups.map((group) => {
+		const text = group.join("\n").trim();
+		const titleLine = group.find((l) => l.trim() && !METADATA_LINE_REGEX.test(l.trim())) ?? "";
+		const metaLine = group.find((l) => l.trim()) ?? "";
+		return {
+			id: parseEntryMeta(metaLine)?.id ?? null,
+			title: titleLine
+				.replace(/^#+\s*/, "")
+				.trim()
+				.slice(0, 80),
+			text,
+		};
+	});
 }
 
-/** Auto-create the pi-memory collection and path contexts in qmd. */
-export async function setupQmdCollection(): Promise<boolean> {
+function listMemoryFiles(paths: ScopePaths): string[] {
+	const files = [paths.memoryFile, ...listScratchpadLists(paths).map((list) => scratchpadListPath(paths, list))];
 	try {
-		await new Promise<void>((resolve, reject) => {
-			execFileFn("qmd", ["collection", "add", MEMORY_DIR, "--name", "pi-memory"], { timeout: 10_000 }, (err) =>
-				err ? reject(err) : resolve(),
-			);
-		});
+		for (const name of fs.readdirSync(paths.dailyDir).sort()) {
+			if (name.endsWith(".md")) files.push(path.join(paths.dailyDir, name));
+		}
 	} catch {
-		// Collection may already exist under a different name — not critical
-		return false;
+		// No daily dir yet
 	}
+	return files.filter((f) => fs.existsSync(f));
+}
 
-	// Add path contexts (best-effort, ignore errors)
-	const contexts: [string, string][] = [
-		["/daily", "Daily append-only work logs organized by date"],
-		["/", "Curated long-term memory: decisions, preferences, facts, lessons"],
-	];
-	for (const [ctxPath, desc] of contexts) {
-		try {
-			await new Promise<void>((resolve, reject) => {
-				execFileFn("qmd", ["context", "add", ctxPath, desc, "-c", "pi-memory"], { timeout: 10_000 }, (err) =>
-					err ? reject(err) : resolve(),
-				);
-			});
-		} catch {
-			// Ignore — context may already exist
+function fileSignature(files: string[]): string {
+	return files
+		.map((f) => {
+			const stat = fs.statSync(f);
+			return `${f}:${stat.mtimeMs}:${stat.size}`;
+		})
+		.join("|");
+}
+
+/** Build (or reuse) the inverted index for a scope. Rebuilt whenever a file's mtime or size changes. */
+function getLocalIndex(paths: ScopePaths): LocalIndex {
+	const files = listMemoryFiles(paths);
+	const signature = fileSignature(files);
+	const cached = localIndexCache.get(paths.dir);
+	if (cached && cached.signature === signature) return cached;
+
+	const chunks: IndexedChunk[] = [];
+	const docFreqs = new Map<string, number>();
+	for (const file of files) {
+		const relPath = path.relative(paths.dir, file).split(path.sep).join("/");
+		for (const chunk of chunkMemoryContent(readFileSafe(file) ?? "")) {
+			const tokens = tokenize(chunk.text);
+			if (tokens.length === 0) continue;
+			const termFreqs = new Map<string, number>();
+			for (const token of tokens) termFreqs.set(token, (termFreqs.get(token) ?? 0) + 1);
+			for (const term of termFreqs.keys()) docFreqs.set(term, (docFreqs.get(term) ?? 0) + 1);
+			chunks.push({ ...chunk, relPath, length: tokens.length, termFreqs });
 		}
 	}
-	return true;
+	const avgLength = chunks.length > 0 ? chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length : 0;
+	const index = { signature, chunks, docFreqs, avgLength };
+	localIndexCache.set(paths.dir, index);
+	return index;
 }
 
-export function detectQmd(): Promise<boolean> {
-	return new Promise((resolve) => {
-		// qmd doesn't reliably support --version; use a fast command that exits 0 when available.
-		execFileFn("qmd", ["status"], { timeout: 5_000 }, (err) => {
-			resolve(!err);
-		});
-	});
+/**
+ * Keyword search over a scope's memory files with BM25 ranking.
+ * Scores are mapped into 0..1 (`bm25 / (bm25 + 1)`) so they read like qmd's.
+ */
+export function runLocalSearch(query: string, limit: number, scope: MemoryScope = "global"): QmdSearchResult[] {
+	const paths = getScopePaths(scope);
+	if (!paths) return [];
+	const queryTerms = [...new Set(tokenize(query))];
+	if (queryTerms.length === 0) return [];
+
+	const index = getLocalIndex(paths);
+	const total = index.chunks.length;
+	const scored: { chunk: IndexedChunk; score: number }[] = [];
+	for (const chunk of index.chunks) {
+		let score = 0;
+		for (const term of queryTerms) {
+			const tf = chunk.termFreqs.get(term);
+			if (!tf) continue;
+			const df = index.docFreqs.get(term) ?? 0;
+			const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+			const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / (index.avgLength || 1));
+			score += idf * ((tf * (BM25_K1 + 1)) / norm);
+		}
+		if (score > 0) scored.push({ chunk, score });
+	}
+
+	return scored
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+		.map(({ chunk, score }) => ({
+			path: chunk.relPath,
+			scope,
+			...(chunk.id ? { id: chunk.id } : {}),
+			score: Math.round((score / (score + 1)) * 1000) / 1000,
+			title: chunk.title,
+			snippet: chunk.text,
+		}));
 }
 
-export function checkCollection(name: string): Promise<boolean> {
-	return new Promise((resolve) => {
-		execFileFn("qmd", ["collection", "list", "--json"], { timeout: 10_000 }, (err, stdout) => {
+// ---------------------------------------------------------------------------
+// Search backends (selected by config.search.backend; the built-in index is the fallback)
+// ---------------------------------------------------------------------------
+
+export type SearchMode = "keyword" | "semantic" | "deep";
+
+export interface SearchOptions {
+	limit: number;
+	scope: MemoryScope;
+	/** Aborted when the caller stops waiting (e.g. a missed injection deadline); backends should stop work. */
+	signal?: AbortSignal;
+}
+
+export interface SearchResponse {
+	results: QmdSearchResult[];
+	/** Semantic/deep results are incomplete until vector embeddings are generated. */
+	needsEmbed?: boolean;
+}
+
+/**
+ * A search engine over the memory files. Each scope is indexed separately; results carry
+ * a `path` relative to the scope dir (or a backend URI) and a 0..1 `score`.
+ */
+export interface MemorySearchBackend {
+	/** Name used by `search.backend` in config.json. */
+	readonly name: string;
+	/** Modes served natively; other modes run as keyword search. */
+	readonly modes: readonly SearchMode[];
+	/** Last known availability, without probing. */
+	isAvailable(): boolean;
+	/** Probe whether the backend can be used (e.g. its CLI is installed). */
+	detect(): Promise<boolean>;
+	/** Create or verify the index for a scope. False when the scope can't be searched. */
+	ensureIndex(scope: MemoryScope): Promise<boolean>;
+	search(mode: SearchMode, query: string, opts: SearchOptions): Promise<SearchResponse>;
+	/** Called after every write. `wait` reindexes now instead of debouncing. */
+	update(changedPaths: string[], opts?: { wait?: boolean }): Promise<void>;
+	/** Shown at session start when the backend is configured but not detected. */
+	setupInstructions?(): string;
+}
+
+/**
+ * qmd hits are file snippets; map one back to the entry it came from so results can show its ID.
+ * Uses the `id:` comment inside the snippet, else the entry containing the snippet's longest line.
+ */
+function withQmdEntryId(r: QmdSearchResult, scope: MemoryScope): QmdSearchResult {
+	if (r.id) return r;
+	const text = getQmdResultText(r);
+	const inline = text.split("\n").flatMap((l) => parseEntryMeta(l)?.id ?? []);
+	if (inline.length === 1) return { ...r, id: inline[0] };
+	if (inline.length > 1) return r; // snippet spans several entries
+
+	const paths = getScopePaths(scope);
+	const resultPath = getQmdResultPath(r);
+	if (!paths || !resultPath) return r;
+	// qmd paths look like qmd://<collection>/daily/2026-01-01.md and may be lowercased.
+	const rel = resultPath.replace(/^qmd:\/\/[^/]+\//, "").toLowerCase();
+	const file = listMemoryFiles(paths).find(
+		(f) => path.relative(paths.dir, f).split(path.sep).join("/").toLowerCase() === rel,
+	);
+	const probe = text
+		.split("\n")
+		.map((l) => l.trim())
+		.filter((l) => l && !l.startsWith("@@") && !METADATA_LINE_REGEX.test(l))
+		.sort((a, b) => b.length - a.length)[0];
+	if (!file || !probe) return r;
+	const entry = parseMemoryEntries(readFileSafe(file) ?? "").find((e) => e.id && e.body.includes(probe));
+	return entry?.id ? { ...r, id: entry.id } : r;
+}
+
+export const qmdSearchBackend: MemorySearchBackend = {
+	name: "qmd",
+	modes: ["keyword", "semantic", "deep"],
+	isAvailable: () => qmdAvailable,
+	async detect() {
+		qmdAvailable = await detectQmd();
+		return qmdAvailable;
+	},
+	async ensureIndex(scope) {
+		const paths = getScopePaths(scope);
+		const collection = qmdCollectionName(scope);
+		// A project dir that doesn't exist yet has nothing to index.
+		if (!paths || !collection || !fs.existsSync(paths.dir)) return false;
+		const key = `${collection}\0${paths.dir}`;
+		if (qmdIndexedCollections.has(key)) return true;
+		const ready = (await checkCollection(collection)) || (await setupQmdCollection(scope));
+		if (ready) qmdIndexedCollections.add(key);
+		return ready;
+	},
+	async search(mode, query, { limit, scope, signal }) {
+		const collection = qmdCollectionName(scope);
+		if (!collection) return { results: [] };
+		const { results, stderr } = await runQmdSearch(mode, query, limit, collection, signal);
+		return { results: results.map((r) => withQmdEntryId(r, scope)), needsEmbed: /need embeddings/i.test(stderr) };
+	},
+	async update(_changedPaths, opts) {
+		// qmd rescans its collections, so the changed paths only trigger the update.
+		if (!(await ensureQmdAvailableForUpdate())) return;
+		if (opts?.wait) {
+			await runQmdUpdateNow();
+		} else {
+			scheduleQmdUpdate();
+		}
+	},
+	setupInstructions: qmdInstallInstructions,
+};
+
+export const localSearchBackend: MemorySearchBackend = {
+	name: "local",
+	modes: ["keyword"],
+	isAvailable: () => true,
+	detect: async () => true,
+	ensureIndex: async (scope) => getScopePaths(scope) !== null,
+	search: async (_mode, query, { limit, scope }) => ({ results: runLocalSearch(query, limit, scope) }),
+	async update(changedPaths) {
+		// The index also revalidates by mtime; dropping it here covers same-size writes within one mtime tick.
+		for (const dir of [...localIndexCache.keys()]) {
+			if (changedPaths.some((p) => isInsideDir(p, dir))) localIndexCache.delete(dir);
+		}
+	},
+};
+
+const searchBackends = new Map<string, MemorySearchBackend>(
+	[qmdSearchBackend, localSearchBackend].map((backend) => [backend.name, backend]),
+);
+
+/** Backend named by `search.backend`, whether or not it is installed. */
+export function configuredSearchBackend(): MemorySearchBackend {
+	return searchBackends.get(config.search.backend) ?? localSearchBackend;
+}
+
+/**
+ * Backend to search with: the configured one when available, otherwise the built-in index.
+ * With `probe`, an unavailable backend is re-detected first (e.g. qmd installed mid-session).
+ */
+export async function resolveSearchBackend(probe = false): Promise<MemorySearchBackend> {
+	const backend = configuredSearchBackend();
+	if (backend.isAvailable()) return backend;
+	if (probe && (await backend.detect())) return backend;
+	return localSearchBackend;
+}
+
+/** Notify the configured backend (and the built-in fallback) that memory files changed. */
+async function updateSearchIndex(changedPaths: string[], opts?: { wait?: boolean }) {
+	const backend = configuredSearchBackend();
+	await backend.update(changedPaths, opts);
+	if (backend !== localSearchBackend) await localSearchBackend.update(changedPaths, opts);
+}
+
+// ---------------------------------------------------------------------------
+// Git-backed memory dir (opt-in via git.enabled; global scope only)
+// ---------------------------------------------------------------------------
+
+// Snapshots are redundant once every write is a commit; lock and temp files are transient.
+const MEMORY_GITIGNORE = ".history/\n*.lock\n*.tmp\n";
+
+let gitAvailable: boolean | null = null;
+let gitQueue: Promise<unknown> = Promise.resolve();
+
+/** What a write did, recorded in the commit message. */
+export interface MemoryChange {
+	tool: string; // memory_write, scratchpad, handoff, exit-summary, ...
+	action?: string; // append, overwrite, add, done, ...
+	sessionId?: string;
+	entryId?: string | null;
+}
+
+/** Forget cached git detection and pending operations (for testing). */
+export function _resetGitForTest() {
+	gitAvailable = null;
+	gitQueue = Promise.resolve();
+}
+
+function runGit(args: string[], cwd = MEMORY_DIR): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFileFn("git", args, { cwd, timeout: 30_000, maxBuffer: 10 * 1024 * 1024 }, (err, stdout, stderr) => {
 			if (err) {
-				resolve(false);
+				reject(new Error(String(stderr ?? "").trim() || err.message));
 				return;
 			}
-			try {
-				const collections = JSON.parse(stdout);
-				if (Array.isArray(collections)) {
-					resolve(
-						collections.some((entry) => {
-							if (typeof entry === "string") return entry === name;
-							if (entry && typeof entry === "object" && "name" in entry) {
-								return (entry as { name?: string }).name === name;
-							}
-							return false;
-						}),
-					);
-				} else {
-					// qmd may output an object with a collections array or similar
-					resolve(stdout.includes(name));
-				}
-			} catch {
-				// Fallback: just check if the name appears in the output
-				resolve(stdout.includes(name));
-			}
+			resolve(String(stdout ?? ""));
 		});
 	});
 }
 
-export function scheduleQmdUpdate() {
-	if (getQmdUpdateMode() !== "background") return;
-	if (!qmdAvailable) return;
-	if (updateTimer) clearTimeout(updateTimer);
-	updateTimer = setTimeout(() => {
-		updateTimer = null;
-		execFileFn("qmd", ["update"], { timeout: 30_000 }, () => {});
-	}, 500);
+/** Run git operations one at a time so concurrent tool calls don't race on .git/index.lock. */
+function withGitQueue<T>(fn: () => Promise<T>): Promise<T> {
+	const run = gitQueue.then(fn, fn);
+	gitQueue = run.catch(() => {});
+	return run;
+}
+
+export async function detectGit(): Promise<boolean> {
+	if (gitAvailable === null) {
+		gitAvailable = await runGit(["--version"], process.cwd()).then(
+			() => true,
+			() => false,
+		);
+	}
+	return gitAvailable;
+}
+
+/**
+ * True when writes are committed (git.enabled and git installed). Initializes the repo on first use;
+ * `pending` files are left out of the initial snapshot so the write that triggered it gets its own commit.
+ */
+export async function ensureGitRepo(pending: string[] = []): Promise<boolean> {
+	if (!config.git.enabled || !(await detectGit())) return false;
+	return withGitQueue(async () => {
+		if (fs.existsSync(path.join(MEMORY_DIR, ".git"))) return true;
+		ensureDirs();
+		await runGit(["init", "-q"]);
+		// Commits need an identity; use a repo-local one when the user has none configured.
+		const email = await runGit(["config", "user.email"]).catch(() => "");
+		if (!email.trim()) {
+			await runGit(["config", "user.name", "pi-memory"]);
+			await runGit(["config", "user.email", "pi-memory@localhost"]);
+		}
+		const gitignore = path.join(MEMORY_DIR, ".gitignore");
+		if (!fs.existsSync(gitignore)) fs.writeFileSync(gitignore, MEMORY_GITIGNORE, "utf-8");
+		await runGit(["add", "-A"]);
+		if (pending.length > 0) await runGit(["reset", "-q", "--", ...pending]).catch(() => "");
+		await runGit(["commit", "-q", "--allow-empty", "-m", "pi-memory: initial snapshot"]);
+		return true;
+	}).catch(() => false);
+}
+
+function memoryRelPath(file: string): string {
+	return path.relative(MEMORY_DIR, file).split(path.sep).join("/");
+}
+
+/**
+ * Subject: `<tool> <action>: <files> [<session>]`, followed by one trailer per field
+ * so `git log --format=%(trailers)` can filter by tool, file, session or entry.
+ */
+export function formatCommitMessage(change: MemoryChange, files: string[]): string {
+	const rel = files.map(memoryRelPath);
+	const action = change.action ? ` ${change.action}` : "";
+	const session = change.sessionId ? ` [${change.sessionId}]` : "";
+	const trailers = [
+		`Tool: ${change.tool}`,
+		...(change.action ? [`Action: ${change.action}`] : []),
+		...rel.map((f) => `Target: ${f}`),
+		...(change.sessionId ? [`Session: ${change.sessionId}`] : []),
+		...(change.entryId ? [`Entry: ${change.entryId}`] : []),
+	];
+	return `${change.tool}${action}: ${rel.join(", ")}${session}\n\n${trailers.join("\n")}`;
+}
+
+/** Commit changed global memory files. Returns false (and does nothing) outside git mode. */
+export async function commitMemoryChange(files: string[], change: MemoryChange): Promise<boolean> {
+	const inRepo = files.filter((f) => isInsideDir(f, MEMORY_DIR));
+	const rel = inRepo.map(memoryRelPath);
+	if (inRepo.length === 0 || !(await ensureGitRepo(rel))) return false;
+	return withGitQueue(async () => {
+		await runGit(["add", "-A", "--", ...rel]);
+		const staged = await runGit(["diff", "--cached", "--name-only", "--", ...rel]);
+		if (!staged.trim()) return false;
+		await runGit(["commit", "-q", "-m", formatCommitMessage(change, inRepo), "--", ...rel]);
+		return true;
+	}).catch(() => false);
+}
+
+/** Post-write hook shared by every write path: refresh search indexes, then commit in git mode. */
+async function memoryWritten(file: string, change: MemoryChange, opts?: { wait?: boolean }) {
+	await updateSearchIndex([file], opts);
+	await commitMemoryChange([file], change);
+}
+
+const GIT_LOG_FORMAT = ["--date=format:%Y-%m-%d %H:%M:%S", "--format=%h %ad %s"];
+
+/**
+ * `git log` for a memory file or a single entry. Entries are followed by line range
+ * (`git log -L`) while they still exist, otherwise by the commits that added or removed their ID.
+ */
+export async function memoryGitLog(query: {
+	file?: string;
+	entryId?: string;
+	limit: number;
+	patch: boolean;
+}): Promise<string> {
+	const patch = query.patch ? [] : ["--no-patch"];
+	const limit = [`-n${query.limit}`];
+	return withGitQueue(async () => {
+		if (query.entryId) {
+			const paths = getScopePaths("global");
+			const files = [paths.memoryFile, ...listMemoryFiles(paths).filter((f) => isInsideDir(f, paths.dailyDir))];
+			const [found] = findMemoryEntries(files, { id: query.entryId });
+			if (found) {
+				const range = `-L${found.entry.startLine + 1},${found.entry.endLine}:${memoryRelPath(found.file)}`;
+				return runGit(["log", ...limit, ...GIT_LOG_FORMAT, ...patch, range]);
+			}
+			return runGit(["log", ...limit, ...GIT_LOG_FORMAT, ...patch, `-Gid:${query.entryId}`, "--", "."]);
+		}
+		const pathspec = query.file ? [memoryRelPath(query.file)] : ["."];
+		return runGit(["log", ...limit, ...GIT_LOG_FORMAT, ...patch, "--", ...pathspec]);
+	});
+}
+
+// --- Sync with a git remote (git.remote), merging memory files entry by entry ---
+
+const SYNC_REMOTE = "origin";
+
+export interface MergeResult {
+	content: string;
+	conflicts: string[]; // entries changed on both sides; the local version was kept
+}
+
+/** Three-way merge of keyed blocks: changes from either side win over the base, local wins ties. */
+function mergeKeyed<T>(
+	base: Map<string, T>,
+	ours: [string, T][],
+	theirs: [string, T][],
+	same: (a: T, b: T) => boolean,
+	describe: (key: string) => string,
+): { merged: [string, T][]; conflicts: string[] } {
+	const theirsMap = new Map(theirs);
+	const merged: [string, T][] = [];
+	const conflicts: string[] = [];
+
+	for (const [key, local] of ours) {
+		const remote = theirsMap.get(key);
+		const original = base.get(key);
+		if (remote === undefined) {
+			// New locally, or deleted remotely: keep unless it is unchanged since the base.
+			if (original === undefined) merged.push([key, local]);
+			else if (!same(local, original)) {
+				merged.push([key, local]);
+				conflicts.push(`${describe(key)}: edited here but deleted on the remote; kept it`);
+			}
+			continue;
+		}
+		if (same(local, remote) || (original !== undefined && same(remote, original))) merged.push([key, local]);
+		else if (original !== undefined && same(local, original)) merged.push([key, remote]);
+		else {
+			merged.push([key, local]);
+			conflicts.push(`${describe(key)}: changed on both sides; kept the local version`);
+		}
+	}
+
+	// Remote-only blocks go right after their remote predecessor, so appends stay in place.
+	let insertAt = 0;
+	for (const [key, remote] of theirs) {
+		const existing = merged.findIndex(([k]) => k === key);
+		if (existing >= 0) {
+			insertAt = existing + 1;
+			continue;
+		}
+		const original = base.get(key);
+		if (original !== undefined) {
+			if (same(remote, original)) continue; // deleted locally
+			conflicts.push(`${describe(key)}: edited on the remote but deleted here; kept it`);
+		}
+		merged.splice(insertAt, 0, [key, remote]);
+		insertAt++;
+	}
+	return { merged, conflicts };
+}
+
+/** Key for an entry: its ID, else its metadata comment, else its text (headings, hand-written notes). */
+function entryKey(entry: MemoryEntry): string {
+	return entry.id ? `id:${entry.id}` : entry.meta || `text:${entry.body}`;
+}
+
+function keyedEntries(content: string): [string, { text: string; timestamp: string | null }][] {
+	const lines = content.split("\n");
+	return parseMemoryEntries(content).map((entry) => [
+		entryKey(entry),
+		{
+			text: lines.slice(entry.startLine, entry.endLine).join("\n").replace(/\s+$/, ""),
+			timestamp: entry.timestamp,
+		},
+	]);
+}
+
+/**
+ * Merge two versions of MEMORY.md or a daily log against their common base, entry by entry
+ * (entries are told apart by their metadata comments). `chronological` keeps daily logs in
+ * timestamp order when both sides appended.
+ */
+export function mergeMemoryEntries(
+	base: string,
+	ours: string,
+	theirs: string,
+	opts: { chronological?: boolean } = {},
+): MergeResult {
+	const { merged, conflicts } = mergeKeyed(
+		new Map(keyedEntries(base)),
+		keyedEntries(ours),
+		keyedEntries(theirs),
+		(a, b) => a.text === b.text,
+		(key) => `entry ${key.replace(/^(id|text):/, "").slice(0, 40)}`,
+	);
+	let blocks = merged.map(([, block]) => block);
+	if (opts.chronological) {
+		// Stable sort; untimed blocks (the date heading) sort with the entry before them.
+		let last = "";
+		const timed = blocks.map((block, i) => {
+			last = block.timestamp ?? last;
+			return { block, i, time: last };
+		});
+		blocks = timed.sort((a, b) => a.time.localeCompare(b.time) || a.i - b.i).map((t) => t.block);
+	}
+	const text = blocks.map((b) => b.text).join("\n\n");
+	return { content: text && (ours || theirs).endsWith("\n") ? `${text}\n` : text, conflicts };
+}
+
+/** Merge two versions of SCRATCHPAD.md (or a named list) item by item (by ID when they have one): adds from both sides, latest done/undone state wins. */
+export function mergeScratchpadItems(base: string, ours: string, theirs: string): MergeResult {
+	const keyed = (content: string): [string, ScratchpadItem][] =>
+		parseScratchpad(content).map((item) => [scratchpadItemKey(item), item]);
+	const { merged, conflicts } = mergeKeyed(
+		new Map(keyed(base)),
+		keyed(ours),
+		keyed(theirs),
+		(a, b) => formatScratchpadLine(a) === formatScratchpadLine(b),
+		(key) => (key.startsWith("id:") ? `item ${key.slice(3)}` : `item "${key.split("\n")[1]}"`),
+	);
+	return {
+		content: serializeScratchpadDocument(
+			parseScratchpadDocument(ours),
+			merged.map(([, item]) => item),
+			scratchpadTitle(ours),
+		),
+		conflicts,
+	};
 }
 
-async function runQmdUpdateNow() {
-	if (getQmdUpdateMode() !== "background") return;
-	if (!qmdAvailable) return;
-	await new Promise<void>((resolve) => {
-		execFileFn("qmd", ["update"], { timeout: 30_000 }, () => resolve());
-	});
+/** Merge strategy for a memory file by its path relative to the memory dir (null: not mergeable). */
+function mergeMemoryFile(rel: string, base: string, ours: string, theirs: string): MergeResult | null {
+	if (rel === "SCRATCHPAD.md" || /^scratchpads\/(archive\/)?[^/]+\.md$/.test(rel))
+		return mergeScratchpadItems(base, ours, theirs);
+	if (rel === "MEMORY.md") return mergeMemoryEntries(base, ours, theirs);
+	if (/^daily\/\d{4}-\d{2}-\d{2}\.md$/.test(rel))
+		return mergeMemoryEntries(base, ours, theirs, { chronological: true });
+	return null;
 }
 
-/** Search for memories relevant to the user's prompt. Returns formatted markdown or empty string on error. */
-export async function searchRelevantMemories(prompt: string): Promise<string> {
-	if (!qmdAvailable || !prompt.trim()) return "";
+export interface SyncResult {
+	remote: string;
+	pulled: string[]; // files changed by the pull, relative to the memory dir
+	pushed: boolean;
+	merged: string[]; // files merged entry by entry
+	conflicts: string[];
+}
 
-	// Sanitize: strip control chars, limit to 200 chars for the search query
-	const sanitized = prompt
-		// biome-ignore lint/suspicious/noControlCharactersInRegex: we intentionally strip control chars.
-		.replace(/[\x00-\x1f\x7f]/g, " ")
-		.trim()
-		.slice(0, 200);
-	if (!sanitized) return "";
+async function isAncestor(commit: string, of: string): Promise<boolean> {
+	return runGit(["merge-base", "--is-ancestor", commit, of]).then(
+		() => true,
+		() => false,
+	);
+}
 
-	try {
-		const hasCollection = await checkCollection("pi-memory");
-		if (!hasCollection) return "";
+/** Resolve the files git could not merge on its own, using the entry-level merges above. */
+async function resolveMergeConflicts(): Promise<{ merged: string[]; conflicts: string[] }> {
+	const unmerged = (await runGit(["diff", "--name-only", "--diff-filter=U"])).split("\n").filter(Boolean);
+	const stage = (n: number, rel: string) => runGit(["show", `:${n}:${rel}`]).catch(() => null);
+	const merged: string[] = [];
+	const conflicts: string[] = [];
+	for (const rel of unmerged) {
+		const [base, ours, theirs] = await Promise.all([stage(1, rel), stage(2, rel), stage(3, rel)]);
+		const file = path.join(MEMORY_DIR, rel);
+		let content: string | null;
+		if (ours === null || theirs === null) {
+			// Deleted on one side, changed on the other: keep the changed version.
+			content = ours ?? theirs;
+		} else {
+			const result = mergeMemoryFile(rel, base ?? "", ours, theirs);
+			if (result) {
+				merged.push(rel);
+				conflicts.push(...result.conflicts.map((c) => `${rel}: ${c}`));
+			} else {
+				conflicts.push(`${rel}: changed on both sides; kept the local version`);
+			}
+			content = result?.content ?? ours;
+		}
+		if (content === null) {
+			await runGit(["rm", "-q", "--", rel]);
+			continue;
+		}
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		await withFileLock(file, () => writeFileAtomic(file, content));
+		await runGit(["add", "--", rel]);
+	}
+	return { merged, conflicts };
+}
 
-		const results = await Promise.race([
-			runQmdSearch("keyword", sanitized, 3),
-			new Promise<never>((_, reject) => setTimeout(() => reject(new Error("timeout")), 3_000)),
-		]);
+/**
+ * Pull from and push to `git.remote`. Local edits made outside the tools are committed first;
+ * diverged histories are merged with a merge commit, never leaving conflict markers behind.
+ */
+export async function syncMemory(): Promise<SyncResult> {
+	if (!config.git.enabled) throw new Error('Git mode is off. Set "git": { "enabled": true } in config.json.');
+	const remote = config.git.remote.trim();
+	if (!remote) throw new Error('No sync remote configured. Set "git": { "remote": "<url or path>" } in config.json.');
+	if (!(await ensureGitRepo())) throw new Error("git not found; install git to sync memory.");
+	const branch = config.git.branch;
+
+	const result = await withGitQueue(async (): Promise<SyncResult> => {
+		const current = await runGit(["remote", "get-url", SYNC_REMOTE]).catch(() => null);
+		if (current === null) await runGit(["remote", "add", SYNC_REMOTE, remote]);
+		else if (current.trim() !== remote) await runGit(["remote", "set-url", SYNC_REMOTE, remote]);
+
+		await runGit(["add", "-A"]);
+		if ((await runGit(["diff", "--cached", "--name-only"])).trim()) {
+			await runGit(["commit", "-q", "-m", "memory_sync commit: local changes"]);
+		}
+
+		const sync: SyncResult = { remote, pulled: [], pushed: false, merged: [], conflicts: [] };
+		const head = (await runGit(["rev-parse", "HEAD"])).trim();
+		const remoteHead = (await runGit(["ls-remote", SYNC_REMOTE, `refs/heads/${branch}`])).trim();
+		if (remoteHead) {
+			await runGit(["fetch", "-q", SYNC_REMOTE, branch]);
+			const theirs = (await runGit(["rev-parse", "FETCH_HEAD"])).trim();
+			if (await isAncestor(theirs, head)) {
+				// Remote has nothing new.
+			} else if (await isAncestor(head, theirs)) {
+				await runGit(["merge", "-q", "--ff-only", theirs]);
+			} else {
+				await runGit(["merge", "-q", "--no-ff", "--no-commit", "--allow-unrelated-histories", theirs]).catch(
+					() => "",
+				);
+				if (!fs.existsSync(path.join(MEMORY_DIR, ".git", "MERGE_HEAD"))) {
+					throw new Error("git merge failed before merging any files.");
+				}
+				try {
+					const resolved = await resolveMergeConflicts();
+					sync.merged = resolved.merged;
+					sync.conflicts = resolved.conflicts;
+					await runGit(["commit", "-q", "-m", `memory_sync merge: ${SYNC_REMOTE}/${branch}\n\nTool: memory_sync`]);
+				} catch (err) {
+					await runGit(["merge", "--abort"]).catch(() => "");
+					throw err;
+				}
+			}
+			sync.pulled = (await runGit(["diff", "--name-only", head, "HEAD"])).split("\n").filter(Boolean);
+		}
+
+		if (!remoteHead || (await runGit(["rev-parse", "HEAD"])).trim() !== remoteHead.split(/\s/)[0]) {
+			await runGit(["push", "-q", SYNC_REMOTE, `HEAD:refs/heads/${branch}`]);
+			sync.pushed = true;
+		}
+		return sync;
+	});
 
-		if (!results || results.results.length === 0) return "";
+	const changed = result.pulled.filter((rel) => rel.endsWith(".md")).map((rel) => path.join(MEMORY_DIR, rel));
+	if (changed.length > 0) await updateSearchIndex(changed);
+	return result;
+}
 
-		const snippets = results.results
-			.map((r) => {
-				const text = getQmdResultText(r);
-				if (!text.trim()) return null;
-				const filePath = getQmdResultPath(r);
-				const filePart = filePath ? `_${filePath}_` : "";
-				return filePart ? `${filePart}\n${text.trim()}` : text.trim();
-			})
-			.filter(Boolean);
+export function formatSyncResult(result: SyncResult): string {
+	const lines = [`Memory synced with ${result.remote}.`];
+	lines.push(
+		result.pulled.length > 0
+			? `Pulled changes to ${result.pulled.length} file(s): ${result.pulled.join(", ")}`
+			: "Nothing new on the remote.",
+	);
+	if (result.merged.length > 0) lines.push(`Merged entry by entry: ${result.merged.join(", ")}`);
+	lines.push(result.pushed ? "Pushed local changes." : "Remote already up to date.");
+	if (result.conflicts.length > 0) {
+		lines.push("Resolved conflicts:", ...result.conflicts.map((c) => `- ${c}`));
+	}
+	return lines.join("\n");
+}
 
-		if (snippets.length === 0) return "";
-		return snippets.join("\n\n---\n\n");
+/** Files that hold entries: MEMORY.md, then daily logs newest first. */
+function memoryEntryFiles(paths: ScopePaths): string[] {
+	let logs: string[] = [];
+	try {
+		logs = fs
+			.readdirSync(paths.dailyDir)
+			.filter((f) => f.endsWith(".md"))
+			.sort()
+			.reverse()
+			.map((f) => path.join(paths.dailyDir, f));
 	} catch {
-		return "";
+		// No daily logs yet
 	}
+	return [paths.memoryFile, ...logs];
 }
 
-export interface QmdSearchResult {
-	path?: string;
-	file?: string;
-	score?: number;
-	content?: string;
-	chunk?: string;
-	snippet?: string;
-	title?: string;
-	[key: string]: unknown;
+/** `#pinned` entries of a scope, from MEMORY.md and every daily log. */
+export function listPinnedEntries(paths: ScopePaths): EntryMatch[] {
+	const pinned: EntryMatch[] = [];
+	for (const file of memoryEntryFiles(paths)) {
+		for (const entry of parseMemoryEntries(readFileSafe(file) ?? "")) {
+			if (isPinnedEntry(entry)) pinned.push({ file, entry });
+		}
+	}
+	return pinned;
 }
 
-function getQmdResultPath(r: QmdSearchResult): string | undefined {
-	return r.path ?? r.file;
+interface EntryTarget {
+	scope?: MemoryScope;
+	target?: "long_term" | "daily";
+	date?: string;
+	id?: string;
+	match?: string;
 }
 
-function getQmdResultText(r: QmdSearchResult): string {
-	return r.content ?? r.chunk ?? r.snippet ?? "";
+type ResolvedEntry = { paths: ScopePaths; found: EntryMatch } | { error: string; details: Record<string, unknown> };
+
+/** Find exactly one entry for memory_edit / memory_delete, or explain why not (missing, ambiguous). */
+function resolveEntryTarget(params: EntryTarget): ResolvedEntry {
+	const scope = params.scope ?? "global";
+	const paths = getScopePaths(scope);
+	if (!paths) return { error: noProjectScopeMessage(), details: { scope } };
+	if (!params.id && !params.match) {
+		return { error: "Provide the entry 'id' (from memory_read or memory_search) or a 'match' text.", details: {} };
+	}
+
+	let files: string[];
+	let where: string;
+	if (params.target === "long_term") {
+		files = [paths.memoryFile];
+		where = "MEMORY.md";
+	} else if (params.target === "daily") {
+		const d = params.date ?? todayStr();
+		if (!isValidDailyDate(d)) return { error: `Invalid date format: ${d}. Use YYYY-MM-DD.`, details: { date: d } };
+		files = [dailyPath(d, scope)];
+		where = `daily/${d}.md`;
+	} else {
+		files = memoryEntryFiles(paths);
+		where = "MEMORY.md or daily logs";
+	}
+	if (scope === "project") where += " (project)";
+
+	const query = params.id ? { id: params.id } : { match: params.match };
+	const matches = findMemoryEntries(files, query);
+	const described = params.id ? `with id ${params.id}` : `containing "${params.match}"`;
+	if (matches.length === 0) {
+		return { error: `No entry ${described} in ${where}.`, details: { ...query, scope, count: 0 } };
+	}
+	if (matches.length > 1) {
+		const candidates = matches.map(({ file, entry }) => ({
+			id: entry.id,
+			file: path.relative(paths.dir, file).split(path.sep).join("/"),
+			firstLine: (entry.body.split("\n").find((l) => l.trim()) ?? "").slice(0, 80),
+		}));
+		const list = candidates.map((c) => `- ${c.id ?? "(no id)"} — ${c.file}: ${c.firstLine}`).join("\n");
+		return {
+			error: `${matches.length} entries ${described} — refusing to guess. Retry with one of these ids or a more specific match:\n${list}`,
+			details: { ...query, scope, count: matches.length, candidates },
+		};
+	}
+	return { paths, found: matches[0] };
 }
 
-function stripAnsi(text: string): string {
-	// qmd may emit spinners/progress bars even with --json, especially on first model download.
-	// Strip ANSI CSI/OSC sequences so we can reliably find and parse JSON payloads.
-	// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping ANSI escape sequences
-	return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, "").replace(/\u001b\][^\u0007]*(\u0007|\u001b\\)/g, "");
+/**
+ * Find `entry` again in freshly read content (under the file lock): another session may have
+ * written to the file since it was resolved, shifting line numbers.
+ */
+function relocateEntry(content: string, entry: MemoryEntry): MemoryEntry | null {
+	return (
+		parseMemoryEntries(content).find((e) =>
+			entry.id ? e.id === entry.id : e.meta === entry.meta && e.body === entry.body,
+		) ?? null
+	);
 }
 
-function parseQmdJson(stdout: string): unknown {
-	const trimmed = stdout.trim();
-	if (!trimmed) return [];
-	if (trimmed === "No results found." || trimmed === "No results found") return [];
+function entryChangedConcurrently(file: string, entry: MemoryEntry) {
+	return {
+		content: [
+			{
+				type: "text" as const,
+				text: `Entry ${entry.id ?? `"${entry.body.slice(0, 40)}"`} in ${path.basename(file)} was changed by another session. Read the file again and retry.`,
+			},
+		],
+		isError: true,
+		details: { path: file, id: entry.id },
+	};
+}
 
-	const cleaned = stripAnsi(stdout);
-	const lines = cleaned.split(/\r?\n/);
-	const startLine = lines.findIndex((l) => {
-		const s = l.trimStart();
-		return s.startsWith("[") || s.startsWith("{");
+/**
+ * Replace one entry's text under the file lock, keeping its metadata comment. An entry from before
+ * IDs existed gets one so it can be addressed later. Returns null when the entry is gone.
+ */
+async function rewriteMemoryEntry(
+	file: string,
+	entry: MemoryEntry,
+	reason: string,
+	body: string,
+): Promise<{ id: string | null } | null> {
+	let id = entry.id;
+	let stillThere = true;
+	await updateMemoryFile(file, reason, (existing) => {
+		const current = relocateEntry(existing, entry);
+		if (!current) {
+			stillThere = false;
+			return null;
+		}
+		let meta = current.meta;
+		if (meta && !id) {
+			id = newEntryId(entryIdsIn(existing));
+			meta = meta.replace(/\s*-->\s*$/, ` id:${id} -->`);
+		}
+		return replaceMemoryEntry(existing, current, meta ? `${meta}\n${body}` : body);
 	});
-	if (startLine === -1) {
-		throw new Error(`Failed to parse qmd output: ${trimmed.slice(0, 200)}`);
+	return stillThere ? { id } : null;
+}
+
+/** Add or remove the `#pinned` tag on one entry (memory_pin, /memory-pins unpin). */
+async function setPinned(params: EntryTarget, pinned: boolean, sessionId: string) {
+	const resolved = resolveEntryTarget(params);
+	if ("error" in resolved) {
+		return { content: [{ type: "text" as const, text: resolved.error }], isError: true, details: resolved.details };
+	}
+	const { paths, found } = resolved;
+	const { entry, file } = found;
+	const label = historyFileLabel(paths, file);
+	const verb = pinned ? "pinned" : "unpinned";
+	if (isPinnedEntry(entry) === pinned) {
+		return {
+			content: [{ type: "text" as const, text: `Entry ${entry.id ?? "(no id)"} in ${label} is already ${verb}.` }],
+			details: { path: file, scope: paths.scope, id: entry.id, changed: false },
+		};
 	}
+	const body = setEntryPinned(entry.body, pinned);
+	const rewritten = await rewriteMemoryEntry(file, entry, "memory_pin", body);
+	if (!rewritten) return entryChangedConcurrently(file, entry);
+	await memoryWritten(file, {
+		tool: "memory_pin",
+		action: pinned ? "pin" : "unpin",
+		sessionId,
+		entryId: rewritten.id,
+	});
+	return {
+		content: [
+			{
+				type: "text" as const,
+				text: `${pinned ? "Pinned" : "Unpinned"} entry ${rewritten.id ?? "(no id)"} in ${label}.`,
+			},
+		],
+		details: { path: file, scope: paths.scope, id: rewritten.id, changed: true },
+	};
+}
 
-	const jsonText = lines.slice(startLine).join("\n").trim();
-	if (!jsonText) return [];
-	return JSON.parse(jsonText);
+/** One line per pinned entry across the active scopes (memory_pin list, /memory-pins). */
+function formatPinnedList(scopes: ScopePaths[]): string {
+	const lines = scopes.flatMap((paths) =>
+		listPinnedEntries(paths).map(({ file, entry }) => {
+			const firstLine = entry.body.split("\n").find((l) => l.trim() && l.trim() !== `#${PINNED_TAG}`) ?? "";
+			return `- ${entry.id ?? "(no id)"} — ${historyFileLabel(paths, file)}: ${firstLine.slice(0, 80)}`;
+		}),
+	);
+	return lines.length > 0 ? `Pinned memories:\n${lines.join("\n")}` : "No pinned memories.";
 }
 
-export function runQmdSearch(
-	mode: "keyword" | "semantic" | "deep",
-	query: string,
-	limit: number,
-): Promise<{ results: QmdSearchResult[]; stderr: string }> {
-	const subcommand = mode === "keyword" ? "search" : mode === "semantic" ? "vsearch" : "query";
-	const args = [subcommand, "--json", "-c", "pi-memory", "-n", String(limit), query];
+/** Memory file for a tool `target` (+ `date` for daily logs). */
+function memoryFileFor(
+	paths: ScopePaths,
+	target: "long_term" | "scratchpad" | "daily",
+	date?: string,
+	list = DEFAULT_SCRATCHPAD_LIST,
+): { file: string } | { error: string } {
+	if (target === "long_term") return { file: paths.memoryFile };
+	if (target === "scratchpad") {
+		if (!isValidScratchpadListName(list)) return { error: invalidScratchpadListMessage(list) };
+		return { file: scratchpadListPath(paths, list) };
+	}
+	const d = date ?? todayStr();
+	if (!isValidDailyDate(d)) return { error: `Invalid date format: ${d}. Use YYYY-MM-DD.` };
+	return { file: dailyPath(d, paths.scope) };
+}
 
-	return new Promise((resolve, reject) => {
-		execFileFn("qmd", args, { timeout: 60_000 }, (err, stdout, stderr) => {
-			if (err) {
-				reject(new Error(stderr?.trim() || err.message));
-				return;
-			}
-			try {
-				const parsed = parseQmdJson(stdout);
-				const results = Array.isArray(parsed) ? parsed : ((parsed as any).results ?? (parsed as any).hits ?? []);
-				resolve({ results, stderr: stderr ?? "" });
-			} catch (parseErr) {
-				if (parseErr instanceof Error) {
-					reject(parseErr);
-					return;
-				}
-				reject(new Error(`Failed to parse qmd output: ${stdout.slice(0, 200)}`));
-			}
-		});
+/** Memory files in a scope that have snapshots, most recently snapshotted first. */
+function filesWithHistory(paths: ScopePaths): string[] {
+	let keys: string[];
+	try {
+		keys = fs.readdirSync(path.join(paths.dir, HISTORY_DIR_NAME));
+	} catch {
+		return [];
+	}
+	return keys
+		.map((key) => path.join(paths.dir, ...key.split("__")))
+		.filter((file) => listSnapshots(file).length > 0)
+		.sort((a, b) => (listSnapshots(b)[0]?.id ?? "").localeCompare(listSnapshots(a)[0]?.id ?? ""));
+}
+
+function historyFileLabel(paths: ScopePaths, file: string): string {
+	const rel = path.relative(paths.dir, file).split(path.sep).join("/");
+	return paths.scope === "project" ? `project:${rel}` : rel;
+}
+
+function formatSnapshotList(label: string, snapshots: Snapshot[]): string {
+	if (snapshots.length === 0) return `No snapshots of ${label}.`;
+	const lines = snapshots.map((snap, i) => {
+		const lineCount = (readFileSafe(snap.path) ?? "").split("\n").length;
+		return `${i + 1}. ${snap.timestamp} (before ${snap.reason}, ${lineCount} lines) — ${snap.id}`;
 	});
+	return `Snapshots of ${label} (newest first):\n${lines.join("\n")}`;
+}
+
+/** What restoring `snapshot` would change in `file`, as a preview block. */
+function formatRestoreDiff(file: string, snapshot: Snapshot): string {
+	const diff = formatLineDiff(readFileSafe(file) ?? "", readFileSafe(snapshot.path) ?? "");
+	if (!diff.split("\n").some((l) => l.startsWith("- ") || l.startsWith("+ "))) {
+		return "Snapshot matches the current file.";
+	}
+	return formatPreviewBlock(`Restore diff (current → ${snapshot.timestamp})`, diff, "start");
+}
+
+/** Roll a file back to a snapshot. The current contents are snapshotted first, so a restore can be undone too. */
+async function restoreSnapshot(file: string, snapshot: Snapshot, sessionId: string) {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	await writeMemoryFile(file, readFileSafe(snapshot.path) ?? "", "memory_restore");
+	await memoryWritten(file, { tool: "memory_restore", action: "restore", sessionId });
+}
+
+/**
+ * `/memory-undo` file argument: MEMORY.md, SCRATCHPAD.md, scratchpads/<list>.md or daily/<date>.md,
+ * optionally prefixed with "project:".
+ */
+function resolveHistoryFileArg(arg: string): { file: string; paths: ScopePaths } | { error: string } {
+	const scope: MemoryScope = arg.startsWith("project:") ? "project" : "global";
+	const rel = arg.replace(/^(project|global):/, "");
+	const paths = getScopePaths(scope);
+	if (!paths) return { error: noProjectScopeMessage() };
+	if (rel === "MEMORY.md") return { file: paths.memoryFile, paths };
+	if (rel === "SCRATCHPAD.md") return { file: paths.scratchpadFile, paths };
+	const list = rel.match(/^scratchpads\/([^/]+)\.md$/);
+	if (list && isValidScratchpadListName(list[1])) return { file: scratchpadListPath(paths, list[1]), paths };
+	const daily = rel.match(/^daily\/(\d{4}-\d{2}-\d{2})\.md$/);
+	if (daily && isValidDailyDate(daily[1])) return { file: dailyPath(daily[1], scope), paths };
+	return {
+		error: `Unknown memory file: ${arg}. Use MEMORY.md, SCRATCHPAD.md, scratchpads/<list>.md or daily/YYYY-MM-DD.md (prefix project: for project memory).`,
+	};
 }
 
 // ---------------------------------------------------------------------------
 // Extension entry point
 // ---------------------------------------------------------------------------
 
+/** Sync at session start/end when git.autoSync is set. Failures are reported, never thrown. */
+async function autoSyncMemory(ctx: ExtensionContext) {
+	if (!config.git.enabled || !config.git.autoSync || !config.git.remote.trim()) return;
+	try {
+		const result = await syncMemory();
+		if (ctx.hasUI && (result.pulled.length > 0 || result.conflicts.length > 0)) {
+			ctx.ui.notify(formatSyncResult(result), "info");
+		}
+	} catch (err) {
+		if (ctx.hasUI) {
+			ctx.ui.notify(`pi-memory: sync failed: ${err instanceof Error ? err.message : String(err)}`, "warning");
+		}
+	}
+}
+
 export default function (pi: ExtensionAPI) {
-	// --- session_start: detect qmd, auto-setup collection ---
+	// --- session_start: detect project scope + search backend, auto-setup indexes ---
 	pi.on("session_start", async (_event, ctx) => {
 		exitSummaryReason = null;
+		activateProjectScope(ctx.cwd);
+		const { errors: configErrors } = loadConfig();
+		if (configErrors.length > 0 && ctx.hasUI) {
+			ctx.ui.notify(formatConfigErrors(configErrors), "warning");
+		}
 		if (terminalInputUnsubscribe) {
 			terminalInputUnsubscribe();
 			terminalInputUnsubscribe = null;
@@ -886,17 +4000,25 @@ export default function (pi: ExtensionAPI) {
 			});
 		}
 
-		qmdAvailable = await detectQmd();
-		if (!qmdAvailable) {
-			if (ctx.hasUI) {
-				ctx.ui.notify(qmdInstallInstructions(), "info");
+		if (config.git.enabled && !(await ensureGitRepo()) && ctx.hasUI) {
+			ctx.ui.notify(
+				"pi-memory: git.enabled is set but git was not found; memory writes won't be committed.",
+				"warning",
+			);
+		}
+		await autoSyncMemory(ctx);
+
+		const backend = configuredSearchBackend();
+		if (!(await backend.detect())) {
+			if (ctx.hasUI && backend.setupInstructions) {
+				ctx.ui.notify(backend.setupInstructions(), "info");
 			}
 			return;
 		}
 
-		const hasCollection = await checkCollection("pi-memory");
-		if (!hasCollection) {
-			await setupQmdCollection();
+		for (const paths of activeScopes()) {
+			if (!fs.existsSync(paths.dir)) continue;
+			await backend.ensureIndex(paths.scope);
 		}
 	});
 
@@ -915,18 +4037,26 @@ export default function (pi: ExtensionAPI) {
 				ensureDirs();
 				const result = await generateExitSummary(ctx);
 				if (result.hasMessages) {
+					const scope = sessionScope();
+					ensureDirs(scope);
 					const summary = result.summary ?? buildExitSummaryFallback(result.error);
 					const sid = shortSessionId(ctx.sessionManager.getSessionId());
 					const ts = nowTimestamp();
-					const entry = formatExitSummaryEntry(summary, reason, sid, ts);
-					const filePath = dailyPath(todayStr());
-					const existing = readFileSafe(filePath) ?? "";
-					const separator = existing.trim() ? "\n\n" : "";
-					fs.writeFileSync(filePath, existing + separator + entry, "utf-8");
-					await ensureQmdAvailableForUpdate();
-					await runQmdUpdateNow();
+					const filePath = dailyPath(todayStr(), scope);
+					let id = "";
+					await updateMemoryFile(filePath, "exit-summary", (existing) => {
+						id = newEntryId(entryIdsIn(existing));
+						const separator = existing.trim() ? "\n\n" : "";
+						return existing + separator + formatExitSummaryEntry(summary, reason, sid, ts, id);
+					});
+					await memoryWritten(
+						filePath,
+						{ tool: "exit-summary", action: reason, sessionId: sid, entryId: id },
+						{ wait: true },
+					);
 				}
 			}
+			await autoSyncMemory(ctx);
 		} finally {
 			if (updateTimer) {
 				clearTimeout(updateTimer);
@@ -944,51 +4074,91 @@ export default function (pi: ExtensionAPI) {
 	});
 
 	// --- Inject memory context before every agent turn ---
-	pi.on("before_agent_start", async (event, _ctx) => {
+	pi.on("before_agent_start", async (event, ctx) => {
+		const started = performance.now();
+		const elapsed = (from: number) => Math.round(performance.now() - from);
 		const skipSearch = process.env.PI_MEMORY_NO_SEARCH === "1";
-		const searchResults = skipSearch ? "" : await searchRelevantMemories(event.prompt ?? "");
-		const memoryContext = buildMemoryContext(searchResults);
+		const prompt = event.prompt ?? "";
+		const query = prompt.trim()
+			? buildInjectionQuery(prompt, recentMessageTexts(ctx, config.search.injection.query.turns))
+			: "";
+		const searchStarted = performance.now();
+		const previousSearch = getLastInjectionSearch();
+		const searchResults = skipSearch ? [] : await findRelevantMemories(query);
+		const search = getLastInjectionSearch();
+		const buildStarted = performance.now();
+		const assembly = assembleMemoryContext(searchResults, {
+			contextWindow: ctx.model?.contextWindow,
+			prompt: query,
+		});
+		const memoryContext = assembly.context;
+		const sessionId = ctx.sessionManager?.getSessionId?.();
+		recordInjectionTrace({
+			timestamp: nowTimestamp(),
+			sessionId: sessionId ? shortSessionId(sessionId) : undefined,
+			prompt: prompt.slice(0, 200),
+			query,
+			search: search !== previousSearch ? search : null,
+			hits: assembly.hits,
+			budgetTokens: assembly.budgetTokens,
+			tokens: estimateTokens(memoryContext),
+			chars: memoryContext.length,
+			truncated: assembly.truncated,
+			sections: assembly.sections,
+			timingsMs: {
+				query: Math.round(searchStarted - started),
+				search: Math.round(buildStarted - searchStarted),
+				build: elapsed(buildStarted),
+				total: elapsed(started),
+			},
+		});
 		if (!memoryContext) return;
 
-		const memoryInstructions = [
+		const memoryInstructions: string[] = [
 			"\n\n## Memory",
 			"The following memory files have been loaded. Use the memory_write tool to persist important information.",
 			"- Decisions, preferences, and durable facts \u2192 MEMORY.md",
 			"- Day-to-day notes and running context \u2192 daily/<YYYY-MM-DD>.md",
 			"- Things to fix later or keep in mind \u2192 scratchpad tool",
 			"- Use memory_search to find past context across all memory files (keyword, semantic, or deep search).",
+			"- To correct or remove a single entry, use memory_edit / memory_delete with its id (the id:xxxxxx in its comment).",
 			"- Use #tags (e.g. #decision, #preference) and [[links]] (e.g. [[auth-strategy]]) in memory content to improve future search recall.",
 			'- If someone says "remember this," write it immediately.',
-			"",
-			memoryContext,
-		].join("\n");
+		];
+		const project = getActiveProject();
+		if (project) {
+			memoryInstructions.push(
+				`- This session is in project "${project.name}". Pass scope: "project" for facts, notes, and todos specific to this project; keep cross-project preferences in the global scope.`,
+			);
+		}
+		memoryInstructions.push("", memoryContext);
 
 		return {
-			systemPrompt: event.systemPrompt + memoryInstructions,
+			systemPrompt: event.systemPrompt + memoryInstructions.join("\n"),
 		};
 	});
 
 	// --- Pre-compaction: auto-capture session handoff ---
 	pi.on("session_before_compact", async (_event, ctx) => {
+		const scope = sessionScope();
 		ensureDirs();
 		const sid = shortSessionId(ctx.sessionManager.getSessionId());
 		const ts = nowTimestamp();
 		const parts: string[] = [];
 
-		// Capture open scratchpad items
-		const scratchpad = readFileSafe(SCRATCHPAD_FILE);
-		if (scratchpad?.trim()) {
-			const openItems = parseScratchpad(scratchpad).filter((i) => !i.done);
-			if (openItems.length > 0) {
-				parts.push("**Open scratchpad items:**");
-				for (const item of openItems) {
-					parts.push(`- [ ] ${item.text}`);
-				}
-			}
+		// Capture open items of the injected scratchpad lists, in every active scope
+		const openItems = activeScopes().flatMap((paths) =>
+			injectedScratchpadLists(paths).flatMap((list) => {
+				const items = parseScratchpad(readFileSafe(scratchpadListPath(paths, list)) ?? "");
+				return items.filter((i) => !i.done).map((item) => `${formatScratchpadLine(item)} (list: ${list})`);
+			}),
+		);
+		if (openItems.length > 0) {
+			parts.push("**Open scratchpad items:**", ...openItems);
 		}
 
 		// Capture last few lines from today's daily log
-		const todayContent = readFileSafe(dailyPath(todayStr()));
+		const todayContent = readFileSafe(dailyPath(todayStr(), scope));
 		if (todayContent?.trim()) {
 			const lines = todayContent.trim().split("\n");
 			const tail = lines.slice(-15).join("\n");
@@ -997,14 +4167,16 @@ export default function (pi: ExtensionAPI) {
 
 		if (parts.length === 0) return;
 
-		const handoff = [`<!-- HANDOFF ${ts} [${sid}] -->`, "## Session Handoff", ...parts].join("\n");
-
-		const filePath = dailyPath(todayStr());
-		const existing = readFileSafe(filePath) ?? "";
-		const separator = existing.trim() ? "\n\n" : "";
-		fs.writeFileSync(filePath, existing + separator + handoff, "utf-8");
-		await ensureQmdAvailableForUpdate();
-		scheduleQmdUpdate();
+		ensureDirs(scope);
+		const filePath = dailyPath(todayStr(), scope);
+		let id = "";
+		await updateMemoryFile(filePath, "handoff", (existing) => {
+			id = newEntryId(entryIdsIn(existing));
+			const handoff = [formatEntryMeta(ts, sid, id, "HANDOFF "), "## Session Handoff", ...parts].join("\n");
+			const separator = existing.trim() ? "\n\n" : "";
+			return existing + separator + handoff;
+		});
+		await memoryWritten(filePath, { tool: "handoff", sessionId: sid, entryId: id });
 	});
 
 	// --- memory_write tool ---
@@ -1015,6 +4187,7 @@ export default function (pi: ExtensionAPI) {
 			"Write to memory files. Two targets:",
 			"- 'long_term': Write to MEMORY.md (curated durable facts, decisions, preferences). Mode: 'append' or 'overwrite'.",
 			"- 'daily': Append to today's daily log (daily/<YYYY-MM-DD>.md). Always appends.",
+			"Scope: 'global' (default) for cross-project memory, 'project' for memory specific to the current project.",
 			"Use this when the user asks you to remember something, or when you learn important preferences/decisions.",
 			"Use #tags (e.g. #decision, #preference, #lesson, #bug) and [[links]] (e.g. [[auth-strategy]]) in content to improve searchability.",
 		].join("\n"),
@@ -1028,41 +4201,59 @@ export default function (pi: ExtensionAPI) {
 					description: "Write mode for long_term target. Default: 'append'. Daily always appends.",
 				}),
 			),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global'. 'project' writes to the current project's memory.",
+				}),
+			),
 		}),
 		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-			ensureDirs();
 			const { target, content, mode } = params;
+			const scope = params.scope ?? "global";
+			const paths = getScopePaths(scope);
+			if (!paths) {
+				return {
+					content: [{ type: "text", text: noProjectScopeMessage() }],
+					isError: true,
+					details: { scope },
+				};
+			}
+			ensureDirs(scope);
 			const sid = shortSessionId(ctx.sessionManager.getSessionId());
 			const ts = nowTimestamp();
 
 			if (target === "daily") {
-				const filePath = dailyPath(todayStr());
-				const existing = readFileSafe(filePath) ?? "";
+				const filePath = dailyPath(todayStr(), scope);
+				let existing = "";
+				let id = "";
+				await updateMemoryFile(filePath, "memory_write", (current) => {
+					existing = current;
+					id = newEntryId(entryIdsIn(current));
+					const separator = current.trim() ? "\n\n" : "";
+					return `${current}${separator}${formatEntryMeta(ts, sid, id)}\n${content}`;
+				});
 				const existingPreview = buildPreview(existing, {
-					maxLines: RESPONSE_PREVIEW_MAX_LINES,
-					maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+					maxLines: config.preview.maxLines,
+					maxChars: config.preview.maxChars,
 					mode: "end",
 				});
 				const existingSnippet = existingPreview.preview
 					? `\n\n${formatPreviewBlock("Existing daily log preview", existing, "end")}`
 					: "\n\nDaily log was empty.";
-
-				const separator = existing.trim() ? "\n\n" : "";
-				const stamped = `<!-- ${ts} [${sid}] -->\n${content}`;
-				fs.writeFileSync(filePath, existing + separator + stamped, "utf-8");
-				await ensureQmdAvailableForUpdate();
-				scheduleQmdUpdate();
+				await memoryWritten(filePath, { tool: "memory_write", action: "append", sessionId: sid, entryId: id });
 				return {
 					content: [
 						{
 							type: "text",
-							text: `Appended to daily log: ${filePath}${existingSnippet}`,
+							text: `Appended to daily log: ${filePath} (entry ${id})${existingSnippet}`,
 						},
 					],
 					details: {
 						path: filePath,
 						target,
+						scope,
 						mode: "append",
+						id,
 						sessionId: sid,
 						timestamp: ts,
 						qmdUpdateMode: getQmdUpdateMode(),
@@ -1072,27 +4263,47 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			// long_term
-			const existing = readFileSafe(MEMORY_FILE) ?? "";
+			const label = scopeFileLabel(paths, "MEMORY.md");
+			let existing = "";
+			let id = "";
+			await updateMemoryFile(
+				paths.memoryFile,
+				mode === "overwrite" ? "memory_write-overwrite" : "memory_write",
+				(current) => {
+					existing = current;
+					if (mode === "overwrite") {
+						id = newEntryId(entryIdsIn(content));
+						return `${formatEntryMeta(ts, sid, id, "last updated: ")}\n${content}`;
+					}
+					id = newEntryId(entryIdsIn(current));
+					const separator = current.trim() ? "\n\n" : "";
+					return `${current}${separator}${formatEntryMeta(ts, sid, id)}\n${content}`;
+				},
+			);
 			const existingPreview = buildPreview(existing, {
-				maxLines: RESPONSE_PREVIEW_MAX_LINES,
-				maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+				maxLines: config.preview.maxLines,
+				maxChars: config.preview.maxChars,
 				mode: "middle",
 			});
 			const existingSnippet = existingPreview.preview
-				? `\n\n${formatPreviewBlock("Existing MEMORY.md preview", existing, "middle")}`
-				: "\n\nMEMORY.md was empty.";
+				? `\n\n${formatPreviewBlock(`Existing ${label} preview`, existing, "middle")}`
+				: `\n\n${label} was empty.`;
 
 			if (mode === "overwrite") {
-				const stamped = `<!-- last updated: ${ts} [${sid}] -->\n${content}`;
-				fs.writeFileSync(MEMORY_FILE, stamped, "utf-8");
-				await ensureQmdAvailableForUpdate();
-				scheduleQmdUpdate();
+				await memoryWritten(paths.memoryFile, {
+					tool: "memory_write",
+					action: "overwrite",
+					sessionId: sid,
+					entryId: id,
+				});
 				return {
-					content: [{ type: "text", text: `Overwrote MEMORY.md${existingSnippet}` }],
+					content: [{ type: "text", text: `Overwrote ${label} (entry ${id})${existingSnippet}` }],
 					details: {
-						path: MEMORY_FILE,
+						path: paths.memoryFile,
 						target,
+						scope,
 						mode: "overwrite",
+						id,
 						sessionId: sid,
 						timestamp: ts,
 						qmdUpdateMode: getQmdUpdateMode(),
@@ -1102,17 +4313,15 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			// append (default)
-			const separator = existing.trim() ? "\n\n" : "";
-			const stamped = `<!-- ${ts} [${sid}] -->\n${content}`;
-			fs.writeFileSync(MEMORY_FILE, existing + separator + stamped, "utf-8");
-			await ensureQmdAvailableForUpdate();
-			scheduleQmdUpdate();
+			await memoryWritten(paths.memoryFile, { tool: "memory_write", action: "append", sessionId: sid, entryId: id });
 			return {
-				content: [{ type: "text", text: `Appended to MEMORY.md${existingSnippet}` }],
+				content: [{ type: "text", text: `Appended to ${label} (entry ${id})${existingSnippet}` }],
 				details: {
-					path: MEMORY_FILE,
+					path: paths.memoryFile,
 					target,
+					scope,
 					mode: "append",
+					id,
 					sessionId: sid,
 					timestamp: ts,
 					qmdUpdateMode: getQmdUpdateMode(),
@@ -1127,50 +4336,251 @@ export default function (pi: ExtensionAPI) {
 		name: "scratchpad",
 		label: "Scratchpad",
 		description: [
-			"Manage a checklist of things to fix later or keep in mind. Actions:",
-			"- 'add': Add a new unchecked item (- [ ] text)",
-			"- 'done': Mark an item as done (- [x] text). Match by substring.",
-			"- 'undo': Uncheck a done item back to open. Match by substring.",
+			"Manage checklists of things to fix later or keep in mind. Every item has a short ID, shown by 'list'. Actions:",
+			"- 'add': Add a new unchecked item (- [ ] text), optionally with a priority, due date and tags, or as a subtask of 'parent'.",
+			"- 'done': Mark an item as done (- [x] text). With subtasks: true, its open subtasks too.",
+			"- 'undo': Uncheck a done item back to open.",
+			"- 'remove': Delete an item and its subtasks.",
+			"- 'edit': Replace an item's text, priority, due date or tags.",
 			"- 'clear_done': Remove all checked items from the list.",
-			"- 'list': Show all items.",
+			"- 'list': Show all items with their IDs.",
+			"- 'lists': Show the scratchpad lists.",
+			"- 'create_list', 'rename_list' (to 'name'), 'archive_list': Manage named lists.",
+			"Every action works on one list: 'list' names it (default: 'default', the main SCRATCHPAD.md).",
+			"done/undo/remove/edit take the item's ID, or text matching it (exact, else substring). When text matches several items, nothing changes and the candidates are listed: retry with an ID.",
+			"Priority (p0 = most urgent), due date and tags are written after the item text (`!p1 due:2026-03-01 #ops`); open items are injected by priority, then due date, with overdue ones flagged.",
 		].join("\n"),
 		parameters: Type.Object({
-			action: StringEnum(["add", "done", "undo", "clear_done", "list"] as const, {
-				description: "What to do",
-			}),
+			action: StringEnum(
+				[
+					"add",
+					"done",
+					"undo",
+					"remove",
+					"edit",
+					"clear_done",
+					"list",
+					"lists",
+					"create_list",
+					"rename_list",
+					"archive_list",
+				] as const,
+				{
+					description: "What to do",
+				},
+			),
 			text: Type.Optional(
 				Type.String({
-					description: "Item text for add, or substring to match for done/undo",
+					description:
+						"Item text for add, new text for edit, or the item's ID or text to match for done/undo/remove",
+				}),
+			),
+			item: Type.Optional(
+				Type.String({
+					description: "ID or text of the item for edit (also accepted instead of 'text' by done/undo/remove)",
+				}),
+			),
+			priority: Type.Optional(
+				StringEnum(["p0", "p1", "p2", "p3", "none"] as const, {
+					description: "Priority for add/edit, p0 most urgent. 'none' clears it.",
+				}),
+			),
+			due: Type.Optional(Type.String({ description: "Due date for add/edit (YYYY-MM-DD). 'none' clears it." })),
+			tags: Type.Optional(
+				Type.Array(Type.String(), { description: "Tags for add/edit, without '#'. Replaces the item's tags." }),
+			),
+			parent: Type.Optional(Type.String({ description: "For add: ID or text of the item to add a subtask to" })),
+			subtasks: Type.Optional(
+				Type.Boolean({ description: "For done: also mark the item's open subtasks done. Default: false." }),
+			),
+			list: Type.Optional(
+				Type.String({
+					description:
+						"List name (lowercase letters, digits, '-', '_'). Default: 'default' (SCRATCHPAD.md); named lists live in scratchpads/<name>.md.",
+				}),
+			),
+			name: Type.Optional(Type.String({ description: "New list name for rename_list" })),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global'. 'project' uses the current project's scratchpad.",
 				}),
 			),
 		}),
 		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-			ensureDirs();
 			const { action, text } = params;
+			const scope = params.scope ?? "global";
+			const paths = getScopePaths(scope);
+			if (!paths) {
+				return {
+					content: [{ type: "text", text: noProjectScopeMessage() }],
+					isError: true,
+					details: { scope },
+				};
+			}
+			ensureDirs(scope);
 			const sid = shortSessionId(ctx.sessionManager.getSessionId());
 			const ts = nowTimestamp();
 
-			const existing = readFileSafe(SCRATCHPAD_FILE) ?? "";
-			let items = parseScratchpad(existing);
+			if (params.due && params.due !== "none" && !isValidDailyDate(params.due)) {
+				return {
+					content: [{ type: "text", text: `Invalid due date: ${params.due}. Use YYYY-MM-DD.` }],
+					isError: true,
+					details: {},
+				};
+			}
+			const badTag = params.tags?.find((t) => !SCRATCHPAD_TAG_REGEX.test(`#${t.replace(/^#/, "")}`));
+			if (badTag !== undefined) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Invalid tag: ${badTag}. Use a letter followed by letters, digits, '_' or '-'.`,
+						},
+					],
+					isError: true,
+					details: {},
+				};
+			}
+
+			const list = params.list ?? DEFAULT_SCRATCHPAD_LIST;
+			for (const name of [list, params.name]) {
+				if (name !== undefined && !isValidScratchpadListName(name)) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: invalidScratchpadListMessage(name),
+							},
+						],
+						isError: true,
+						details: {},
+					};
+				}
+			}
+			const file = scratchpadListPath(paths, list);
+			const listLabel = scratchpadListLabel(list);
+			const isDefaultList = list === DEFAULT_SCRATCHPAD_LIST;
+			const listTitle = isDefaultList ? "Scratchpad" : `Scratchpad: ${list}`;
+			const serialize = (doc: ScratchpadDocument, items: ScratchpadItem[]) =>
+				serializeScratchpadDocument(doc, items, listTitle);
+			const listError = (message: string) => ({
+				content: [{ type: "text" as const, text: message }],
+				isError: true,
+				details: { list },
+			});
+
+			if (action === "lists") {
+				const injected = injectedScratchpadLists(paths);
+				const lists = listScratchpadLists(paths);
+				const lines = lists.map((name) => {
+					const items = parseScratchpad(readFileSafe(scratchpadListPath(paths, name)) ?? "");
+					const open = items.filter((i) => !i.done).length;
+					const note = injected.includes(name) ? ", injected" : "";
+					return `- ${name} (${scratchpadListLabel(name)}): ${open} open of ${items.length}${note}`;
+				});
+				return {
+					content: [{ type: "text", text: `Scratchpad lists:\n${lines.join("\n")}` }],
+					details: { lists, injected },
+				};
+			}
+
+			if (action === "create_list") {
+				if (!params.list || isDefaultList)
+					return listError("Error: 'list' (the new list's name) is required for create_list.");
+				if (fs.existsSync(file)) return listError(`List "${list}" already exists (${listLabel}).`);
+				fs.mkdirSync(path.dirname(file), { recursive: true });
+				await writeMemoryFile(file, serializeScratchpad([], listTitle), `scratchpad-${action}`);
+				await memoryWritten(file, { tool: "scratchpad", action, sessionId: sid });
+				return {
+					content: [{ type: "text", text: `Created list "${list}" (${listLabel}).` }],
+					details: { action, list, path: file },
+				};
+			}
+
+			if (action === "rename_list" || action === "archive_list") {
+				if (!params.list || isDefaultList) {
+					return listError(`Error: 'list' is required for ${action}, and the default list can't be moved.`);
+				}
+				if (!fs.existsSync(file)) return listError(`No scratchpad list named "${list}".`);
+				let to: string;
+				if (action === "rename_list") {
+					if (!params.name) return listError("Error: 'name' (the new name) is required for rename_list.");
+					to = scratchpadListPath(paths, params.name);
+					if (params.name === DEFAULT_SCRATCHPAD_LIST || fs.existsSync(to)) {
+						return listError(`List "${params.name}" already exists.`);
+					}
+					await moveScratchpadList(file, to, `scratchpad-${action}`, { from: list, to: params.name });
+				} else {
+					to = scratchpadArchivePath(paths, list);
+					await moveScratchpadList(file, to, `scratchpad-${action}`);
+				}
+				await updateSearchIndex([file, to]);
+				await commitMemoryChange([file, to], { tool: "scratchpad", action, sessionId: sid });
+				const label = path.relative(paths.dir, to).split(path.sep).join("/");
+				return {
+					content: [
+						{
+							type: "text",
+							text:
+								action === "rename_list"
+									? `Renamed list "${list}" to "${params.name}" (${label}).`
+									: `Archived list "${list}" to ${label}.`,
+						},
+					],
+					details: { action, list, path: to },
+				};
+			}
+
+			if (!isDefaultList && !fs.existsSync(file)) {
+				return listError(
+					`No scratchpad list named "${list}". Create it with action 'create_list', or see 'lists'.`,
+				);
+			}
+
+			const noMatch = (ref: string, state = "") => ({
+				content: [{ type: "text" as const, text: `No matching ${state}item found for: "${ref}"` }],
+				details: {},
+			});
+			const ambiguous = (ref: string, candidates: ScratchpadCandidate[], state = "") => ({
+				content: [
+					{
+						type: "text" as const,
+						text: `"${ref}" matches ${candidates.length} ${state}items; nothing changed. Retry with an ID or the full text of one of them:\n${candidates.map(formatScratchpadCandidate).join("\n")}`,
+					},
+				],
+				details: { candidates: candidates.map(({ item: { id, done, text }, line }) => ({ id, done, text, line })) },
+			});
 
 			if (action === "list") {
+				let items = parseScratchpad(readFileSafe(file) ?? "");
 				if (items.length === 0) {
 					return {
-						content: [{ type: "text", text: "Scratchpad is empty." }],
+						content: [
+							{ type: "text", text: isDefaultList ? "Scratchpad is empty." : `List "${list}" is empty.` },
+						],
 						details: {},
 					};
 				}
-				const serialized = serializeScratchpad(items);
-				const preview = buildPreview(serialized, {
-					maxLines: RESPONSE_PREVIEW_MAX_LINES,
-					maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+				if (items.some((i) => !i.id)) {
+					// Hand-written or older items: persist IDs so they can be referred to.
+					const serialized = await updateMemoryFile(file, "scratchpad-ids", (current) => {
+						const doc = parseScratchpadDocument(current);
+						return assignScratchpadIds(doc.items) ? serialize(doc, doc.items) : null;
+					});
+					items = parseScratchpad(serialized);
+					await memoryWritten(file, { tool: "scratchpad", action, sessionId: sid });
+				}
+				const listing = items.map(formatScratchpadItem).join("\n");
+				const preview = buildPreview(listing, {
+					maxLines: config.preview.maxLines,
+					maxChars: config.preview.maxChars,
 					mode: "start",
 				});
 				return {
 					content: [
 						{
 							type: "text",
-							text: formatPreviewBlock("Scratchpad preview", serialized, "start"),
+							text: formatPreviewBlock("Scratchpad", listing, "start"),
 						},
 					],
 					details: {
@@ -1188,25 +4598,45 @@ export default function (pi: ExtensionAPI) {
 						details: {},
 					};
 				}
-				items.push({ done: false, text, meta: `<!-- ${ts} [${sid}] -->` });
-				const serialized = serializeScratchpad(items);
+				let added: ScratchpadItem = { done: false, text, meta: "" };
+				let parents: ScratchpadItem[] = [];
+				let candidates: ScratchpadCandidate[] = [];
+				const serialized = await updateMemoryFile(file, `scratchpad-${action}`, (current) => {
+					const doc = parseScratchpadDocument(current);
+					const { items } = doc;
+					const id = newEntryId(new Set(items.map((i) => i.id ?? "")));
+					added = { id, done: false, text, meta: formatEntryMeta(ts, sid, id) };
+					applyScratchpadFields(added, params);
+					if (!params.parent) return serialize(doc, [...items, added]);
+					parents = findScratchpadItems(items, params.parent);
+					// A missing or ambiguous parent changes nothing.
+					if (parents.length !== 1) {
+						candidates = scratchpadCandidates(doc, parents);
+						return null;
+					}
+					// Last among the parent's subtasks.
+					added.depth = (parents[0].depth ?? 0) + 1;
+					items.splice(scratchpadSubtreeEnd(items, items.indexOf(parents[0])), 0, added);
+					return serialize(doc, items);
+				});
+				if (params.parent && parents.length === 0) return noMatch(params.parent);
+				if (params.parent && parents.length > 1) return ambiguous(params.parent, candidates);
 				const preview = buildPreview(serialized, {
-					maxLines: RESPONSE_PREVIEW_MAX_LINES,
-					maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+					maxLines: config.preview.maxLines,
+					maxChars: config.preview.maxChars,
 					mode: "start",
 				});
-				fs.writeFileSync(SCRATCHPAD_FILE, serialized, "utf-8");
-				await ensureQmdAvailableForUpdate();
-				scheduleQmdUpdate();
+				await memoryWritten(file, { tool: "scratchpad", action, sessionId: sid });
 				return {
 					content: [
 						{
 							type: "text",
-							text: `Added: - [ ] ${text}\n\n${formatPreviewBlock("Scratchpad preview", serialized, "start")}`,
+							text: `Added: ${formatScratchpadItem(added).trimStart()}${params.parent ? ` under: ${formatScratchpadItem(parents[0]).trimStart()}` : ""}\n\n${formatPreviewBlock("Scratchpad preview", serialized, "start")}`,
 						},
 					],
 					details: {
 						action,
+						id: added.id,
 						sessionId: sid,
 						timestamp: ts,
 						qmdUpdateMode: getQmdUpdateMode(),
@@ -1215,57 +4645,80 @@ export default function (pi: ExtensionAPI) {
 				};
 			}
 
-			if (action === "done" || action === "undo") {
-				if (!text) {
+			if (action === "done" || action === "undo" || action === "remove" || action === "edit") {
+				const ref = action === "edit" ? params.item : (params.item ?? text);
+				const edits = text || params.priority || params.due || params.tags;
+				if (!ref || (action === "edit" && !edits)) {
+					const missing =
+						action === "edit" ? (ref ? "'text', 'priority', 'due' or 'tags'" : "'item'") : "'text' or 'item'";
 					return {
 						content: [
 							{
 								type: "text",
-								text: `Error: 'text' is required for ${action}.`,
+								text: `Error: ${missing} is required for ${action}.`,
 							},
 						],
 						details: {},
 					};
 				}
-				const needle = text.toLowerCase();
-				const targetDone = action === "done";
-				let matched = false;
-				for (const item of items) {
-					if (item.done !== targetDone && item.text.toLowerCase().includes(needle)) {
-						item.done = targetDone;
-						matched = true;
-						break;
+				// done only looks at open items and undo only at done ones.
+				const state = action === "done" ? "open " : action === "undo" ? "done " : "";
+				let matches: ScratchpadItem[] = [];
+				let changed = null as ScratchpadItem | null;
+				let subtaskNote = "";
+				let candidates: ScratchpadCandidate[] = [];
+				const serialized = await updateMemoryFile(file, `scratchpad-${action}`, (current) => {
+					const doc = parseScratchpadDocument(current);
+					const { items } = doc;
+					const eligible = state ? items.filter((i) => i.done === (action === "undo")) : items;
+					matches = findScratchpadItems(eligible, ref);
+					// A missing or ambiguous reference changes nothing.
+					if (matches.length !== 1) {
+						candidates = scratchpadCandidates(doc, matches);
+						return null;
 					}
-				}
-				if (!matched) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: `No matching ${targetDone ? "open" : "done"} item found for: "${text}"`,
-							},
-						],
-						details: {},
-					};
-				}
-				const serialized = serializeScratchpad(items);
+					const [item] = matches;
+					// Only the item changed gets an ID written; the other lines stay as they are.
+					assignScratchpadIds(items, [item]);
+					const index = items.indexOf(item);
+					const subtasks = items.slice(index + 1, scratchpadSubtreeEnd(items, index));
+					if (action === "remove") {
+						items.splice(index, subtasks.length + 1);
+						if (subtasks.length > 0) subtaskNote = ` (and ${subtasks.length} subtask(s))`;
+					} else if (action === "edit") {
+						applyScratchpadFields(item, params);
+					} else {
+						item.done = action === "done";
+						const open = subtasks.filter((s) => !s.done);
+						if (action === "done" && params.subtasks) {
+							for (const s of open) s.done = true;
+							if (open.length > 0) subtaskNote = ` (and ${open.length} open subtask(s))`;
+						} else if (action === "done" && open.length > 0) {
+							subtaskNote = ` (${open.length} open subtask(s) left; pass subtasks: true to complete them too)`;
+						}
+					}
+					changed = item;
+					return serialize(doc, items);
+				});
+				if (matches.length === 0) return noMatch(ref, state);
+				if (!changed) return ambiguous(ref, candidates, state);
 				const preview = buildPreview(serialized, {
-					maxLines: RESPONSE_PREVIEW_MAX_LINES,
-					maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+					maxLines: config.preview.maxLines,
+					maxChars: config.preview.maxChars,
 					mode: "start",
 				});
-				fs.writeFileSync(SCRATCHPAD_FILE, serialized, "utf-8");
-				await ensureQmdAvailableForUpdate();
-				scheduleQmdUpdate();
+				await memoryWritten(file, { tool: "scratchpad", action, sessionId: sid });
+				const verb = action === "remove" ? "Removed" : action === "edit" ? "Edited" : "Updated";
 				return {
 					content: [
 						{
 							type: "text",
-							text: `Updated.\n\n${formatPreviewBlock("Scratchpad preview", serialized, "start")}`,
+							text: `${verb}: ${formatScratchpadItem(changed).trimStart()}${subtaskNote}\n\n${formatPreviewBlock("Scratchpad preview", serialized, "start")}`,
 						},
 					],
 					details: {
 						action,
+						id: changed.id,
 						sessionId: sid,
 						timestamp: ts,
 						qmdUpdateMode: getQmdUpdateMode(),
@@ -1275,18 +4728,23 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			if (action === "clear_done") {
-				const before = items.length;
-				items = items.filter((i) => !i.done);
-				const removed = before - items.length;
-				const serialized = serializeScratchpad(items);
+				let removed = 0;
+				const serialized = await updateMemoryFile(file, `scratchpad-${action}`, (current) => {
+					const doc = parseScratchpadDocument(current);
+					const { items } = doc;
+					// A done parent stays while any of its subtasks is open.
+					const kept = items.filter(
+						(item, i) => !item.done || items.slice(i + 1, scratchpadSubtreeEnd(items, i)).some((s) => !s.done),
+					);
+					removed = items.length - kept.length;
+					return serialize(doc, kept);
+				});
 				const preview = buildPreview(serialized, {
-					maxLines: RESPONSE_PREVIEW_MAX_LINES,
-					maxChars: RESPONSE_PREVIEW_MAX_CHARS,
+					maxLines: config.preview.maxLines,
+					maxChars: config.preview.maxChars,
 					mode: "start",
 				});
-				fs.writeFileSync(SCRATCHPAD_FILE, serialized, "utf-8");
-				await ensureQmdAvailableForUpdate();
-				scheduleQmdUpdate();
+				await memoryWritten(file, { tool: "scratchpad", action, sessionId: sid });
 				return {
 					content: [
 						{
@@ -1310,6 +4768,475 @@ export default function (pi: ExtensionAPI) {
 		},
 	});
 
+	// --- memory_edit tool ---
+	pi.registerTool({
+		name: "memory_edit",
+		label: "Memory Edit",
+		description: [
+			"Replace the text of a single entry in MEMORY.md or a daily log, keeping its metadata comment and ID.",
+			"Identify the entry by 'id' (shown by memory_read and memory_search) or by a 'match' text that occurs in exactly one entry.",
+			"Ambiguous matches are refused and the candidates listed. Prefer this over memory_write overwrite to fix a single fact.",
+			"Without 'target', MEMORY.md and all daily logs are searched.",
+		].join("\n"),
+		parameters: Type.Object({
+			id: Type.Optional(Type.String({ description: "Entry ID (from the <!-- ... id:xxxxxx --> comment)" })),
+			match: Type.Optional(Type.String({ description: "Text that occurs in exactly one entry (used when no id)" })),
+			content: Type.String({ description: "New entry text (Markdown), replacing the old text" }),
+			target: Type.Optional(
+				StringEnum(["long_term", "daily"] as const, {
+					description: "Limit to MEMORY.md ('long_term') or one daily log ('daily'). Default: both.",
+				}),
+			),
+			date: Type.Optional(
+				Type.String({ description: "Daily log date (YYYY-MM-DD) for target 'daily'. Default: today." }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global'.",
+				}),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const resolved = resolveEntryTarget(params);
+			if ("error" in resolved) {
+				return { content: [{ type: "text", text: resolved.error }], isError: true, details: resolved.details };
+			}
+			const { paths, found } = resolved;
+			const { entry, file } = found;
+			const body = params.content.trim();
+			const rewritten = await rewriteMemoryEntry(file, entry, "memory_edit", body);
+			if (!rewritten) return entryChangedConcurrently(file, entry);
+			const { id } = rewritten;
+			await memoryWritten(file, {
+				tool: "memory_edit",
+				sessionId: shortSessionId(ctx.sessionManager.getSessionId()),
+				entryId: id,
+			});
+
+			const diff = formatLineDiff(entry.body, body);
+			const diffPreview = buildPreview(diff, {
+				maxLines: config.preview.maxLines,
+				maxChars: config.preview.maxChars,
+				mode: "start",
+			});
+			const label = path.relative(paths.dir, file).split(path.sep).join("/");
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Edited entry ${id ?? "(no id)"} in ${label}\n\n${formatPreviewBlock("Diff", diff, "start")}`,
+					},
+				],
+				details: {
+					path: file,
+					scope: paths.scope,
+					id,
+					qmdUpdateMode: getQmdUpdateMode(),
+					diffPreview,
+				},
+			};
+		},
+	});
+
+	// --- memory_delete tool ---
+	pi.registerTool({
+		name: "memory_delete",
+		label: "Memory Delete",
+		description: [
+			"Remove a single entry (text and metadata comment) from MEMORY.md or a daily log.",
+			"Identify the entry by 'id' (shown by memory_read and memory_search) or by a 'match' text that occurs in exactly one entry.",
+			"Ambiguous matches are refused and the candidates listed. Without 'target', MEMORY.md and all daily logs are searched.",
+		].join("\n"),
+		parameters: Type.Object({
+			id: Type.Optional(Type.String({ description: "Entry ID (from the <!-- ... id:xxxxxx --> comment)" })),
+			match: Type.Optional(Type.String({ description: "Text that occurs in exactly one entry (used when no id)" })),
+			target: Type.Optional(
+				StringEnum(["long_term", "daily"] as const, {
+					description: "Limit to MEMORY.md ('long_term') or one daily log ('daily'). Default: both.",
+				}),
+			),
+			date: Type.Optional(
+				Type.String({ description: "Daily log date (YYYY-MM-DD) for target 'daily'. Default: today." }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global'.",
+				}),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const resolved = resolveEntryTarget(params);
+			if ("error" in resolved) {
+				return { content: [{ type: "text", text: resolved.error }], isError: true, details: resolved.details };
+			}
+			const { paths, found } = resolved;
+			const { entry, file } = found;
+			let stillThere = true;
+			await updateMemoryFile(file, "memory_delete", (existing) => {
+				const current = relocateEntry(existing, entry);
+				if (!current) stillThere = false;
+				return current ? replaceMemoryEntry(existing, current, null) : null;
+			});
+			if (!stillThere) return entryChangedConcurrently(file, entry);
+			await memoryWritten(file, {
+				tool: "memory_delete",
+				sessionId: shortSessionId(ctx.sessionManager.getSessionId()),
+				entryId: entry.id,
+			});
+
+			const diff = formatLineDiff(entry.meta ? `${entry.meta}\n${entry.body}` : entry.body, "");
+			const diffPreview = buildPreview(diff, {
+				maxLines: config.preview.maxLines,
+				maxChars: config.preview.maxChars,
+				mode: "start",
+			});
+			const label = path.relative(paths.dir, file).split(path.sep).join("/");
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Deleted entry ${entry.id ?? "(no id)"} from ${label}\n\n${formatPreviewBlock("Diff", diff, "start")}`,
+					},
+				],
+				details: {
+					path: file,
+					scope: paths.scope,
+					id: entry.id,
+					qmdUpdateMode: getQmdUpdateMode(),
+					diffPreview,
+				},
+			};
+		},
+	});
+
+	// --- memory_pin tool ---
+	pi.registerTool({
+		name: "memory_pin",
+		label: "Memory Pin",
+		description: [
+			"Pin an entry so it is injected into every turn, in its own top-priority section, however large MEMORY.md grows.",
+			"Use for facts needed all the time (deploy commands, team conventions). Pinning adds a #pinned tag to the entry;",
+			"writing #pinned in memory_write content works too. 'unpin' removes the tag; 'list' shows pinned entries.",
+			"Identify the entry by 'id' or by a 'match' text that occurs in exactly one entry, as for memory_edit.",
+		].join("\n"),
+		parameters: Type.Object({
+			action: StringEnum(["pin", "unpin", "list"] as const, { description: "pin, unpin, or list pinned entries" }),
+			id: Type.Optional(Type.String({ description: "Entry ID (from the <!-- ... id:xxxxxx --> comment)" })),
+			match: Type.Optional(Type.String({ description: "Text that occurs in exactly one entry (used when no id)" })),
+			target: Type.Optional(
+				StringEnum(["long_term", "daily"] as const, {
+					description: "Limit to MEMORY.md ('long_term') or one daily log ('daily'). Default: both.",
+				}),
+			),
+			date: Type.Optional(
+				Type.String({ description: "Daily log date (YYYY-MM-DD) for target 'daily'. Default: today." }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global' (list: all active scopes).",
+				}),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			if (params.action === "list") {
+				const paths = params.scope ? getScopePaths(params.scope) : null;
+				if (params.scope && !paths) {
+					return { content: [{ type: "text", text: noProjectScopeMessage() }], isError: true, details: {} };
+				}
+				const scopes = paths ? [paths] : activeScopes();
+				const count = scopes.reduce((n, p) => n + listPinnedEntries(p).length, 0);
+				return { content: [{ type: "text", text: formatPinnedList(scopes) }], details: { count } };
+			}
+			return setPinned(params, params.action === "pin", shortSessionId(ctx.sessionManager.getSessionId()));
+		},
+	});
+
+	// --- /memory-pins command ---
+	pi.registerCommand("memory-pins", {
+		description: "List pinned memories, or: unpin <id>",
+		handler: async (args, ctx) => {
+			const notify = (message: string, type: "info" | "warning" | "error" = "info") => {
+				if (ctx.hasUI) ctx.ui.notify(message, type);
+			};
+			const [sub = "", id] = args.trim().split(/\s+/).filter(Boolean);
+			if (!sub || sub === "list") return notify(formatPinnedList(activeScopes()));
+			if (sub !== "unpin") return notify(`Unknown /memory-pins subcommand: ${sub}`, "warning");
+			if (!id) return notify("Usage: /memory-pins unpin <id>", "warning");
+			const scope = activeScopes().find((paths) =>
+				listPinnedEntries(paths).some(({ entry }) => entry.id === id),
+			)?.scope;
+			if (!scope) return notify(`No pinned entry with id ${id}.`, "warning");
+			const result = await setPinned({ id, scope }, false, shortSessionId(ctx.sessionManager.getSessionId()));
+			notify(result.content[0].text, result.isError ? "error" : "info");
+		},
+	});
+
+	// --- /memory-explain command ---
+	pi.registerCommand("memory-explain", {
+		description: "Show what the last memory injection contained and why, or: json",
+		handler: async (args, ctx) => {
+			if (!ctx.hasUI) return;
+			const trace = getLastInjectionTrace();
+			if (!trace) return ctx.ui.notify("No memory injection yet in this session.", "info");
+			ctx.ui.notify(args.trim() === "json" ? JSON.stringify(trace, null, 2) : formatInjectionTrace(trace), "info");
+		},
+	});
+
+	// --- memory_restore tool ---
+	pi.registerTool({
+		name: "memory_restore",
+		label: "Memory Restore",
+		description: [
+			"Every write to a memory file first saves the previous contents as a snapshot. Use this tool to recover from a bad write.",
+			"Actions:",
+			"- 'list': list snapshots of a file (newest first)",
+			"- 'diff': show what restoring a snapshot would change",
+			"- 'restore': roll the file back to a snapshot (the current contents are snapshotted, so this can be undone)",
+			"Pick the snapshot by its number from 'list' (1 = newest, the default) or its id.",
+		].join("\n"),
+		parameters: Type.Object({
+			action: StringEnum(["list", "diff", "restore"] as const, { description: "What to do" }),
+			target: StringEnum(["long_term", "scratchpad", "daily"] as const, {
+				description: "Which file: MEMORY.md, a scratchpad list or a daily log",
+			}),
+			date: Type.Optional(Type.String({ description: "Daily log date (YYYY-MM-DD). Default: today." })),
+			list: SCRATCHPAD_LIST_PARAM,
+			snapshot: Type.Optional(
+				Type.String({ description: "Snapshot number from 'list' (1 = newest) or snapshot id. Default: 1." }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global'.",
+				}),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const scope = params.scope ?? "global";
+			const paths = getScopePaths(scope);
+			if (!paths) {
+				return {
+					content: [{ type: "text", text: noProjectScopeMessage() }],
+					isError: true,
+					details: { scope },
+				};
+			}
+			const resolved = memoryFileFor(paths, params.target, params.date, params.list);
+			if ("error" in resolved) {
+				return { content: [{ type: "text", text: resolved.error }], isError: true, details: {} };
+			}
+			const { file } = resolved;
+			const label = historyFileLabel(paths, file);
+
+			if (params.action === "list") {
+				const snapshots = listSnapshots(file);
+				return {
+					content: [{ type: "text", text: formatSnapshotList(label, snapshots) }],
+					details: {
+						path: file,
+						scope,
+						snapshots: snapshots.map(({ id, timestamp, reason }) => ({ id, timestamp, reason })),
+					},
+				};
+			}
+
+			const snapshot = findSnapshot(file, params.snapshot);
+			if (!snapshot) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: params.snapshot
+								? `No snapshot ${params.snapshot} of ${label}. Use action 'list' to see available snapshots.`
+								: `No snapshots of ${label}.`,
+						},
+					],
+					isError: true,
+					details: { path: file, scope },
+				};
+			}
+
+			if (params.action === "diff") {
+				return {
+					content: [{ type: "text", text: formatRestoreDiff(file, snapshot) }],
+					details: { path: file, scope, snapshot: snapshot.id },
+				};
+			}
+
+			const diff = formatRestoreDiff(file, snapshot);
+			await restoreSnapshot(file, snapshot, shortSessionId(ctx.sessionManager.getSessionId()));
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Restored ${label} to the snapshot from ${snapshot.timestamp} (before ${snapshot.reason}).\n\n${diff}`,
+					},
+				],
+				details: { path: file, scope, snapshot: snapshot.id, qmdUpdateMode: getQmdUpdateMode() },
+			};
+		},
+	});
+
+	// --- memory_history tool ---
+	pi.registerTool({
+		name: "memory_history",
+		label: "Memory History",
+		description: [
+			'Show the git history of global memory (requires "git": { "enabled": true } in config.json).',
+			"Every write is a commit whose message names the tool, action, file, session and entry.",
+			"Pass 'id' to follow a single entry, or 'target' (+ 'date') for one file; with neither, the whole memory dir.",
+			"Set 'diff' to include the changes of each commit.",
+		].join("\n"),
+		parameters: Type.Object({
+			target: Type.Optional(
+				StringEnum(["long_term", "scratchpad", "daily"] as const, {
+					description: "Which file: MEMORY.md, a scratchpad list or a daily log",
+				}),
+			),
+			date: Type.Optional(Type.String({ description: "Daily log date (YYYY-MM-DD). Default: today." })),
+			list: SCRATCHPAD_LIST_PARAM,
+			id: Type.Optional(Type.String({ description: "Entry id (from memory_read or memory_search)" })),
+			limit: Type.Optional(Type.Number({ description: "Max commits to show. Default: 10." })),
+			diff: Type.Optional(Type.Boolean({ description: "Include each commit's diff. Default: false." })),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
+			if (!config.git.enabled) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: 'Git history is off. Set "git": { "enabled": true } in config.json to enable it.',
+						},
+					],
+					isError: true,
+					details: { enabled: false },
+				};
+			}
+			if (!(await ensureGitRepo())) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: "git not found (or the memory dir could not be initialized as a repo). Install git to use memory history.",
+						},
+					],
+					isError: true,
+					details: { enabled: true, git: false },
+				};
+			}
+
+			let file: string | undefined;
+			let label = "memory";
+			if (!params.id && params.target) {
+				const paths = getScopePaths("global");
+				const resolved = memoryFileFor(paths, params.target, params.date, params.list);
+				if ("error" in resolved) {
+					return { content: [{ type: "text", text: resolved.error }], isError: true, details: {} };
+				}
+				file = resolved.file;
+				label = historyFileLabel(paths, file);
+			} else if (params.id) {
+				label = `entry ${params.id}`;
+			}
+
+			const limit = Math.max(1, Math.floor(params.limit ?? 10));
+			let log: string;
+			try {
+				log = await memoryGitLog({ file, entryId: params.id, limit, patch: params.diff ?? false });
+			} catch (err) {
+				return {
+					content: [{ type: "text", text: `git log failed: ${err instanceof Error ? err.message : String(err)}` }],
+					isError: true,
+					details: { path: file, id: params.id },
+				};
+			}
+			if (!log.trim()) {
+				return {
+					content: [{ type: "text", text: `No commits for ${label}.` }],
+					details: { path: file, id: params.id, count: 0 },
+				};
+			}
+			return {
+				content: [{ type: "text", text: formatPreviewBlock(`History of ${label}`, log, "start") }],
+				details: { path: file, id: params.id, diff: params.diff ?? false },
+			};
+		},
+	});
+
+	// --- /memory-sync command ---
+	pi.registerCommand("memory-sync", {
+		description: "Pull from and push to the git remote configured in git.remote, merging memory entry by entry",
+		handler: async (_args, ctx) => {
+			try {
+				const result = await syncMemory();
+				if (ctx.hasUI) ctx.ui.notify(formatSyncResult(result), result.conflicts.length > 0 ? "warning" : "info");
+			} catch (err) {
+				if (ctx.hasUI)
+					ctx.ui.notify(`Memory sync failed: ${err instanceof Error ? err.message : String(err)}`, "error");
+			}
+		},
+	});
+
+	// --- /memory-undo command ---
+	pi.registerCommand("memory-undo", {
+		description:
+			"Undo the last memory write, or: list [file] | diff <file> [n] | restore <file> [n] (file: MEMORY.md, SCRATCHPAD.md, daily/YYYY-MM-DD.md, project:…)",
+		handler: async (args, ctx) => {
+			const notify = (message: string, type: "info" | "warning" | "error" = "info") => {
+				if (ctx.hasUI) ctx.ui.notify(message, type);
+			};
+			const [sub = "", fileArg, ref] = args.trim().split(/\s+/).filter(Boolean);
+
+			if (sub === "list") {
+				if (fileArg) {
+					const resolved = resolveHistoryFileArg(fileArg);
+					if ("error" in resolved) return notify(resolved.error, "error");
+					return notify(formatSnapshotList(fileArg, listSnapshots(resolved.file)));
+				}
+				const lines = activeScopes().flatMap((paths) =>
+					filesWithHistory(paths).map((file) => {
+						const [latest] = listSnapshots(file);
+						const count = listSnapshots(file).length;
+						return `- ${historyFileLabel(paths, file)}: ${count} snapshot(s), latest ${latest.timestamp} (before ${latest.reason})`;
+					}),
+				);
+				return notify(lines.length > 0 ? `Memory history:\n${lines.join("\n")}` : "No memory snapshots yet.");
+			}
+
+			if (sub === "diff" || sub === "restore") {
+				if (!fileArg) return notify(`Usage: /memory-undo ${sub} <file> [n]`, "warning");
+				const resolved = resolveHistoryFileArg(fileArg);
+				if ("error" in resolved) return notify(resolved.error, "error");
+				const snapshot = findSnapshot(resolved.file, ref);
+				if (!snapshot) {
+					return notify(ref ? `No snapshot ${ref} of ${fileArg}.` : `No snapshots of ${fileArg}.`, "warning");
+				}
+				if (sub === "diff") return notify(formatRestoreDiff(resolved.file, snapshot));
+				await restoreSnapshot(resolved.file, snapshot, shortSessionId(ctx.sessionManager.getSessionId()));
+				return notify(`Restored ${fileArg} to the snapshot from ${snapshot.timestamp}.`);
+			}
+
+			if (sub) return notify(`Unknown /memory-undo subcommand: ${sub}`, "warning");
+
+			// No args: roll back the most recent write across all active scopes.
+			const latest = activeScopes()
+				.flatMap((paths) =>
+					filesWithHistory(paths).map((file) => ({ paths, file, snapshot: listSnapshots(file)[0] })),
+				)
+				.sort((a, b) => b.snapshot.id.localeCompare(a.snapshot.id))[0];
+			if (!latest) return notify("No memory snapshots yet — nothing to undo.");
+			const label = historyFileLabel(latest.paths, latest.file);
+			if (ctx.hasUI) {
+				const ok = await ctx.ui.confirm(
+					"Undo last memory write?",
+					`${label}: restore the version from ${latest.snapshot.timestamp} (before ${latest.snapshot.reason}).\n\n${formatRestoreDiff(latest.file, latest.snapshot)}`,
+				);
+				if (!ok) return;
+			}
+			await restoreSnapshot(latest.file, latest.snapshot, shortSessionId(ctx.sessionManager.getSessionId()));
+			notify(`Undid ${latest.snapshot.reason} on ${label}. Run /memory-undo again to redo.`);
+		},
+	});
+
 	// --- memory_read tool ---
 	pi.registerTool({
 		name: "memory_read",
@@ -1317,7 +5244,7 @@ export default function (pi: ExtensionAPI) {
 		description: [
 			"Read a memory file. Targets:",
 			"- 'long_term': Read MEMORY.md",
-			"- 'scratchpad': Read SCRATCHPAD.md",
+			"- 'scratchpad': Read SCRATCHPAD.md, or the named list given in 'list'",
 			"- 'daily': Read a specific day's log (default: today). Pass date as YYYY-MM-DD.",
 			"- 'list': List all daily log files.",
 		].join("\n"),
@@ -1330,15 +5257,30 @@ export default function (pi: ExtensionAPI) {
 					description: "Date for daily log (YYYY-MM-DD). Default: today.",
 				}),
 			),
+			list: SCRATCHPAD_LIST_PARAM,
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Memory scope. Default: 'global'. 'project' reads the current project's memory.",
+				}),
+			),
 		}),
 		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
-			ensureDirs();
 			const { target, date } = params;
+			const scope = params.scope ?? "global";
+			const paths = getScopePaths(scope);
+			if (!paths) {
+				return {
+					content: [{ type: "text", text: noProjectScopeMessage() }],
+					isError: true,
+					details: { scope },
+				};
+			}
+			if (scope === "global") ensureDirs();
 
 			if (target === "list") {
 				try {
 					const files = fs
-						.readdirSync(DAILY_DIR)
+						.readdirSync(paths.dailyDir)
 						.filter((f) => f.endsWith(".md"))
 						.sort()
 						.reverse();
@@ -1374,7 +5316,7 @@ export default function (pi: ExtensionAPI) {
 						details: { date: d },
 					};
 				}
-				const filePath = dailyPath(d);
+				const filePath = dailyPath(d, scope);
 				const content = readFileSafe(filePath);
 				if (!content) {
 					return {
@@ -1382,20 +5324,26 @@ export default function (pi: ExtensionAPI) {
 						details: {},
 					};
 				}
+				const entryIds = parseMemoryEntries(content).flatMap((e) => (e.id ? [e.id] : []));
 				return {
-					content: [{ type: "text", text: content }],
-					details: { path: filePath, date: d },
+					content: [{ type: "text", text: withEntryIdFooter(content, entryIds) }],
+					details: { path: filePath, date: d, entryIds },
 				};
 			}
 
 			if (target === "scratchpad") {
-				const content = readFileSafe(SCRATCHPAD_FILE);
+				const list = params.list ?? DEFAULT_SCRATCHPAD_LIST;
+				const resolved = memoryFileFor(paths, target, undefined, list);
+				if ("error" in resolved) {
+					return { content: [{ type: "text", text: resolved.error }], isError: true, details: { list } };
+				}
+				const content = readFileSafe(resolved.file);
 				if (!content?.trim()) {
 					return {
 						content: [
 							{
 								type: "text",
-								text: "SCRATCHPAD.md is empty or does not exist.",
+								text: `${scopeFileLabel(paths, scratchpadListLabel(list))} is empty or does not exist.`,
 							},
 						],
 						details: {},
@@ -1403,21 +5351,22 @@ export default function (pi: ExtensionAPI) {
 				}
 				return {
 					content: [{ type: "text", text: content }],
-					details: { path: SCRATCHPAD_FILE },
+					details: { path: resolved.file, list },
 				};
 			}
 
 			// long_term
-			const content = readFileSafe(MEMORY_FILE);
+			const content = readFileSafe(paths.memoryFile);
 			if (!content) {
 				return {
-					content: [{ type: "text", text: "MEMORY.md is empty or does not exist." }],
+					content: [{ type: "text", text: `${scopeFileLabel(paths, "MEMORY.md")} is empty or does not exist.` }],
 					details: {},
 				};
 			}
+			const entryIds = parseMemoryEntries(content).flatMap((e) => (e.id ? [e.id] : []));
 			return {
-				content: [{ type: "text", text: content }],
-				details: { path: MEMORY_FILE },
+				content: [{ type: "text", text: withEntryIdFooter(content, entryIds) }],
+				details: { path: paths.memoryFile, entryIds },
 			};
 		},
 	});
@@ -1433,6 +5382,7 @@ export default function (pi: ExtensionAPI) {
 			"- 'semantic' (~2s): Meaning-based search. Finds related concepts even with different wording.\n" +
 			"- 'deep' (~10s): Hybrid search with reranking. Use when other modes don't find what you need.\n" +
 			"If semantic/deep warns about missing embeddings, run `qmd embed` once and retry.\n" +
+			"Without qmd, a built-in keyword index is used and semantic/deep run as keyword searches.\n" +
 			"If the first search doesn't find what you need, try rephrasing or switching modes. " +
 			"Keyword mode is best for specific terms; semantic mode finds related concepts even with different wording.",
 		parameters: Type.Object({
@@ -1443,52 +5393,70 @@ export default function (pi: ExtensionAPI) {
 				}),
 			),
 			limit: Type.Optional(Type.Number({ description: "Max results (default: 5)" })),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Limit search to one memory scope. Default: all scopes active in this session.",
+				}),
+			),
 		}),
 		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
-			if (!qmdAvailable) {
-				// Re-check on demand in case qmd was installed after session start.
-				qmdAvailable = await detectQmd();
-			}
-
-			if (!qmdAvailable) {
+			if (params.scope === "project" && !getActiveProject()) {
 				return {
-					content: [
-						{
-							type: "text",
-							text: qmdInstallInstructions(),
-						},
-					],
+					content: [{ type: "text", text: noProjectScopeMessage() }],
 					isError: true,
-					details: {},
+					details: { scope: params.scope },
 				};
 			}
 
-			let hasCollection = await checkCollection("pi-memory");
-			if (!hasCollection) {
-				const created = await setupQmdCollection();
-				if (created) {
-					hasCollection = true;
-				}
+			// Probe again in case the configured backend (e.g. qmd) was installed after session start.
+			const backend = await resolveSearchBackend(true);
+			const scopes = params.scope ? [params.scope] : activeScopes().map((p) => p.scope);
+			const mode = params.mode ?? "keyword";
+			const searchMode = backend.modes.includes(mode) ? mode : "keyword";
+			const limit = params.limit ?? 5;
+
+			const searchable: MemoryScope[] = [];
+			for (const scope of scopes) {
+				if (await backend.ensureIndex(scope)) searchable.push(scope);
 			}
-			if (!hasCollection) {
+			if (searchable.length === 0) {
 				return {
 					content: [
 						{
 							type: "text",
-							text: "Could not set up qmd pi-memory collection. Check that qmd is working and the memory directory exists.",
+							text: `Could not set up the ${backend.name} search index. Check that ${backend.name} is working and the memory directory exists.`,
 						},
 					],
 					isError: true,
-					details: {},
+					details: { backend: backend.name },
 				};
 			}
 
-			const mode = params.mode ?? "keyword";
-			const limit = params.limit ?? 5;
-
 			try {
-				const { results, stderr } = await runQmdSearch(mode, params.query, limit);
-				const needsEmbed = /need embeddings/i.test(stderr ?? "");
+				const perScope = await Promise.all(
+					searchable.map(async (scope) => {
+						const response = await backend.search(searchMode, params.query, { limit, scope });
+						return { ...response, results: response.results.map((r) => ({ ...r, scope })) };
+					}),
+				);
+				const results = mergeSearchResults(
+					perScope.map((r) => r.results),
+					limit,
+				);
+				const needsEmbed = perScope.some((r) => r.needsEmbed);
+				const details = {
+					mode: searchMode,
+					requestedMode: mode,
+					query: params.query,
+					count: results.length,
+					needsEmbed,
+					backend: backend.name,
+					scopes: searchable,
+				};
+				const fallbackNote =
+					searchMode === mode
+						? ""
+						: `\n\nNote: the ${backend.name} search backend has no ${mode} mode; showing keyword results instead.`;
 
 				if (results.length === 0) {
 					if (needsEmbed && (mode === "semantic" || mode === "deep")) {
@@ -1505,35 +5473,26 @@ export default function (pi: ExtensionAPI) {
 									].join("\n"),
 								},
 							],
-							details: { mode, query: params.query, count: 0, needsEmbed: true },
+							details,
 						};
 					}
+					const where = backend === localSearchBackend ? ", built-in index" : "";
 					return {
 						content: [
 							{
 								type: "text",
-								text: `No results found for "${params.query}" (mode: ${mode}).`,
+								text: `No results found for "${params.query}" (mode: ${searchMode}${where}).${fallbackNote}`,
 							},
 						],
-						details: { mode, query: params.query, count: 0, needsEmbed },
+						details,
 					};
 				}
 
-				const formatted = results
-					.map((r, i) => {
-						const parts: string[] = [`### Result ${i + 1}`];
-						const filePath = getQmdResultPath(r);
-						if (filePath) parts.push(`**File:** ${filePath}`);
-						if (r.score != null) parts.push(`**Score:** ${r.score}`);
-						const text = getQmdResultText(r);
-						if (text) parts.push(`\n${text}`);
-						return parts.join("\n");
-					})
-					.join("\n\n---\n\n");
-
 				return {
-					content: [{ type: "text", text: formatted }],
-					details: { mode, query: params.query, count: results.length, needsEmbed },
+					content: [
+						{ type: "text", text: `${formatSearchResults(results, searchable.length > 1)}${fallbackNote}` },
+					],
+					details,
 				};
 			} catch (err) {
 				return {
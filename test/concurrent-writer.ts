@@ -0,0 +1,26 @@
+/**
+ * Child process for the concurrent-writer tests in unit.test.ts: one "pi session" appending
+ * to today's daily log and the scratchpad of a shared memory dir.
+ *
+ * Run: bun test/concurrent-writer.ts <memory-dir> <session-id> <count>
+ */
+
+import registerExtension, { _setBaseDir } from "../index.ts";
+
+const [dir, sessionId, count] = process.argv.slice(2);
+_setBaseDir(dir);
+
+const tools: Record<string, any> = {};
+registerExtension({
+	registerTool(tool: any) {
+		tools[tool.name] = tool;
+	},
+	on() {},
+	registerCommand() {},
+} as any);
+
+const ctx = { sessionManager: { getSessionId: () => sessionId }, hasUI: false };
+for (let i = 0; i < Number(count); i++) {
+	await tools.memory_write.execute("c", { target: "daily", content: `${sessionId} entry ${i}` }, null, null, ctx);
+	await tools.scratchpad.execute("c", { action: "add", text: `${sessionId} item ${i}` }, null, null, ctx);
+}
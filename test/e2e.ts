@@ -10,7 +10,7 @@
  *   - Optionally: `qmd` on PATH for search tests
  *
  * What it tests:
- *   1. Extension loads and registers 4 tools
+ *   1. Extension loads and registers 9 tools
  *   2. Memory write via LLM → files appear on disk
  *   3. Memory context injection → LLM can answer from injected memory
  *   4. Full round-trip: write in session 1, recall in session 2
@@ -228,6 +228,11 @@ function testExtensionLoads() {
 	assert(text.includes("memory_read"), `memory_read not found in response: ${result.textOutput.slice(0, 500)}`);
 	assert(text.includes("scratchpad"), `scratchpad not found in response: ${result.textOutput.slice(0, 500)}`);
 	assert(text.includes("memory_search"), `memory_search not found in response: ${result.textOutput.slice(0, 500)}`);
+	assert(text.includes("memory_edit"), `memory_edit not found in response: ${result.textOutput.slice(0, 500)}`);
+	assert(text.includes("memory_delete"), `memory_delete not found in response: ${result.textOutput.slice(0, 500)}`);
+	assert(text.includes("memory_restore"), `memory_restore not found in response: ${result.textOutput.slice(0, 500)}`);
+	assert(text.includes("memory_history"), `memory_history not found in response: ${result.textOutput.slice(0, 500)}`);
+	assert(text.includes("memory_pin"), `memory_pin not found in response: ${result.textOutput.slice(0, 500)}`);
 }
 
 function testContextInjectionDirect() {
@@ -568,7 +573,7 @@ function main() {
 
 	try {
 		console.log("\x1b[1m1. Extension loading\x1b[0m");
-		test("extension registers 4 tools", testExtensionLoads);
+		test("extension registers 9 tools", testExtensionLoads);
 
 		console.log("\n\x1b[1m2. Context injection (direct write)\x1b[0m");
 		test("LLM answers from injected memory context", testContextInjectionDirect);
@@ -2,7 +2,7 @@
  * Recall effectiveness eval for pi-memory selective injection.
  *
  * Seeds memory with a diverse corpus, then runs recall questions in two modes:
- *   A) With selective injection (default)
+ *   A) With selective injection, once per injection search mode in EVAL_MODES
  *   B) Without selective injection (PI_MEMORY_NO_SEARCH=1)
  *
  * Measures whether the agent can answer from injected context alone (no tool use).
@@ -17,11 +17,17 @@
  *   PI_E2E_PROVIDER=openai     Pin provider
  *   PI_E2E_MODEL=gpt-4o-mini   Pin model (recommended for cost)
  *   EVAL_RUNS=1                Number of runs per condition (default: 1)
+ *   EVAL_MODES=keyword,hybrid  Injection search modes to compare (default: keyword)
+ *
+ * Each search records which mode it actually used (e.g. a keyword fallback after a
+ * semantic timeout) and its latency via PI_MEMORY_SEARCH_TELEMETRY; both are reported.
  */
 
 import { execSync } from "node:child_process";
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
+import type { InjectionSearchMode, InjectionSearchTelemetry } from "../index.ts";
 
 // ---------------------------------------------------------------------------
 // Config
@@ -38,6 +44,11 @@ const TIMEOUT_MS = 120_000;
 const PI_E2E_PROVIDER = process.env.PI_E2E_PROVIDER;
 const PI_E2E_MODEL = process.env.PI_E2E_MODEL;
 const EVAL_RUNS = parseInt(process.env.EVAL_RUNS ?? "1", 10);
+const EVAL_MODES = (process.env.EVAL_MODES ?? "keyword")
+	.split(",")
+	.map((m) => m.trim())
+	.filter(Boolean) as InjectionSearchMode[];
+const TELEMETRY_FILE = path.join(os.tmpdir(), `pi-memory-eval-telemetry-${process.pid}.jsonl`);
 
 // ---------------------------------------------------------------------------
 // Memory corpus — diverse topics, varying ages
@@ -437,11 +448,17 @@ function runQmdUpdate(): boolean {
 // Run the eval
 // ---------------------------------------------------------------------------
 
+interface SearchRun {
+	hit: boolean;
+	usedTool: boolean;
+	search: InjectionSearchTelemetry | null;
+}
+
 interface QuestionResult {
 	questionId: string;
 	topic: string;
 	source: string;
-	withSearch: { hit: boolean; usedTool: boolean };
+	withSearch: Record<string, SearchRun>; // by injection mode
 	withoutSearch: { hit: boolean; usedTool: boolean };
 }
 
@@ -450,6 +467,18 @@ function scoreResponse(response: string, expectedKeywords: string[]): boolean {
 	return expectedKeywords.some((kw) => lower.includes(kw.toLowerCase()));
 }
 
+/** The telemetry line the extension appended for the run that just finished, if any. */
+function lastTelemetry(): InjectionSearchTelemetry | null {
+	if (!fs.existsSync(TELEMETRY_FILE)) return null;
+	const lines = fs.readFileSync(TELEMETRY_FILE, "utf-8").trim().split("\n");
+	fs.unlinkSync(TELEMETRY_FILE);
+	try {
+		return JSON.parse(lines[lines.length - 1]);
+	} catch {
+		return null;
+	}
+}
+
 function runEvalRound(): QuestionResult[] {
 	const results: QuestionResult[] = [];
 
@@ -461,24 +490,36 @@ function runEvalRound(): QuestionResult[] {
 			"Do NOT use any tools — only use what's already in your context. " +
 			`If you don't know, say "I don't know."\n\nQuestion: ${q.question}`;
 
-		// Mode A: with selective injection
-		const withSearch = runPi(prompt);
-		const hitA = scoreResponse(withSearch.textOutput, q.expectedKeywords);
-		const toolA = withSearch.toolCalls.length > 0;
+		// Mode A: with selective injection, per search mode
+		const withSearch: Record<string, SearchRun> = {};
+		for (const mode of EVAL_MODES) {
+			const run = runPi(prompt, { PI_MEMORY_INJECTION_MODE: mode, PI_MEMORY_SEARCH_TELEMETRY: TELEMETRY_FILE });
+			withSearch[mode] = {
+				hit: scoreResponse(run.textOutput, q.expectedKeywords),
+				usedTool: run.toolCalls.length > 0,
+				search: lastTelemetry(),
+			};
+		}
 
 		// Mode B: without selective injection
 		const withoutSearch = runPi(prompt, { PI_MEMORY_NO_SEARCH: "1" });
 		const hitB = scoreResponse(withoutSearch.textOutput, q.expectedKeywords);
 		const toolB = withoutSearch.toolCalls.length > 0;
 
+		const hitA = withSearch[EVAL_MODES[0]].hit;
 		const indicator = hitA && !hitB ? "\x1b[32m+\x1b[0m" : hitA === hitB ? "=" : "\x1b[31m-\x1b[0m";
-		console.log(`A:${hitA ? "hit" : "miss"} B:${hitB ? "hit" : "miss"} ${indicator}`);
+		const modes = EVAL_MODES.map((mode) => {
+			const run = withSearch[mode];
+			const fallback = run.search?.used === "keyword-fallback" ? " (fallback)" : "";
+			return `${mode}:${run.hit ? "hit" : "miss"}${fallback}`;
+		});
+		console.log(`${modes.join(" ")} B:${hitB ? "hit" : "miss"} ${indicator}`);
 
 		results.push({
 			questionId: q.id,
 			topic: q.topic,
 			source: q.source,
-			withSearch: { hit: hitA, usedTool: toolA },
+			withSearch,
 			withoutSearch: { hit: hitB, usedTool: toolB },
 		});
 	}
@@ -490,14 +531,7 @@ function printResults(allRuns: QuestionResult[][]) {
 	// Aggregate across runs (majority vote)
 	const aggregated: Record<
 		string,
-		{
-			topic: string;
-			source: string;
-			hitsA: number;
-			hitsB: number;
-			runsA: number;
-			runsB: number;
-		}
+		{ topic: string; source: string; hitsA: Record<string, number>; hitsB: number; runs: number }
 	> = {};
 
 	for (const run of allRuns) {
@@ -506,16 +540,15 @@ function printResults(allRuns: QuestionResult[][]) {
 				aggregated[r.questionId] = {
 					topic: r.topic,
 					source: r.source,
-					hitsA: 0,
+					hitsA: Object.fromEntries(EVAL_MODES.map((m) => [m, 0])),
 					hitsB: 0,
-					runsA: 0,
-					runsB: 0,
+					runs: 0,
 				};
 			}
-			aggregated[r.questionId].runsA++;
-			aggregated[r.questionId].runsB++;
-			if (r.withSearch.hit) aggregated[r.questionId].hitsA++;
-			if (r.withoutSearch.hit) aggregated[r.questionId].hitsB++;
+			const data = aggregated[r.questionId];
+			data.runs++;
+			for (const mode of EVAL_MODES) if (r.withSearch[mode].hit) data.hitsA[mode]++;
+			if (r.withoutSearch.hit) data.hitsB++;
 		}
 	}
 
@@ -524,58 +557,94 @@ function printResults(allRuns: QuestionResult[][]) {
 	console.log("=".repeat(80));
 	console.log("");
 
-	// Table header
+	// Table header: one "with search" column per mode; delta is the first mode vs. no search
 	const pad = (s: string, n: number) => s.padEnd(n);
-	console.log(
-		`${pad("ID", 18)} ${pad("Source", 14)} ${pad("With Search", 14)} ${pad("Without", 14)} ${pad("Delta", 8)}`,
-	);
-	console.log("-".repeat(70));
+	const modeHeaders = EVAL_MODES.map((m) => pad(EVAL_MODES.length > 1 ? m : "With Search", 14)).join(" ");
+	console.log(`${pad("ID", 18)} ${pad("Source", 14)} ${modeHeaders} ${pad("Without", 14)} ${pad("Delta", 8)}`);
+	console.log("-".repeat(55 + 15 * EVAL_MODES.length));
 
-	let totalA = 0;
+	const totalA: Record<string, number> = Object.fromEntries(EVAL_MODES.map((m) => [m, 0]));
 	let totalB = 0;
 	let totalRuns = 0;
-	const bySource: Record<string, { hitsA: number; hitsB: number; total: number }> = {};
+	const bySource: Record<string, { hitsA: Record<string, number>; hitsB: number; total: number }> = {};
+	const primary = EVAL_MODES[0];
 
 	for (const [id, data] of Object.entries(aggregated)) {
-		const rateA = data.hitsA / data.runsA;
-		const rateB = data.hitsB / data.runsB;
-		const delta = rateA - rateB;
+		const delta = (data.hitsA[primary] - data.hitsB) / data.runs;
 		const deltaStr =
 			delta > 0
 				? `\x1b[32m+${(delta * 100).toFixed(0)}%\x1b[0m`
 				: delta < 0
 					? `\x1b[31m${(delta * 100).toFixed(0)}%\x1b[0m`
 					: "0%";
+		const modeCells = EVAL_MODES.map((m) => pad(`${data.hitsA[m]}/${data.runs}`, 14)).join(" ");
 
 		console.log(
-			`${pad(id, 18)} ${pad(data.source, 14)} ${pad(`${data.hitsA}/${data.runsA}`, 14)} ${pad(`${data.hitsB}/${data.runsB}`, 14)} ${deltaStr}`,
+			`${pad(id, 18)} ${pad(data.source, 14)} ${modeCells} ${pad(`${data.hitsB}/${data.runs}`, 14)} ${deltaStr}`,
 		);
 
-		totalA += data.hitsA;
+		for (const mode of EVAL_MODES) totalA[mode] += data.hitsA[mode];
 		totalB += data.hitsB;
-		totalRuns += data.runsA;
+		totalRuns += data.runs;
 
-		if (!bySource[data.source]) bySource[data.source] = { hitsA: 0, hitsB: 0, total: 0 };
-		bySource[data.source].hitsA += data.hitsA;
+		if (!bySource[data.source]) {
+			bySource[data.source] = { hitsA: Object.fromEntries(EVAL_MODES.map((m) => [m, 0])), hitsB: 0, total: 0 };
+		}
+		for (const mode of EVAL_MODES) bySource[data.source].hitsA[mode] += data.hitsA[mode];
 		bySource[data.source].hitsB += data.hitsB;
-		bySource[data.source].total += data.runsA;
+		bySource[data.source].total += data.runs;
 	}
 
-	console.log("-".repeat(70));
+	console.log("-".repeat(55 + 15 * EVAL_MODES.length));
+	const totalCells = EVAL_MODES.map((m) => pad(`${totalA[m]}/${totalRuns}`, 14)).join(" ");
 	console.log(
-		`${pad("TOTAL", 18)} ${pad("", 14)} ${pad(`${totalA}/${totalRuns}`, 14)} ${pad(`${totalB}/${totalRuns}`, 14)} ${totalA > totalB ? "\x1b[32m" : ""}${(((totalA - totalB) / totalRuns) * 100).toFixed(0)}%\x1b[0m`,
+		`${pad("TOTAL", 18)} ${pad("", 14)} ${totalCells} ${pad(`${totalB}/${totalRuns}`, 14)} ${totalA[primary] > totalB ? "\x1b[32m" : ""}${(((totalA[primary] - totalB) / totalRuns) * 100).toFixed(0)}%\x1b[0m`,
 	);
 
 	console.log("\n\x1b[1mBy source:\x1b[0m");
 	for (const [source, data] of Object.entries(bySource)) {
-		const rateA = ((data.hitsA / data.total) * 100).toFixed(0);
+		const rates = EVAL_MODES.map((m) => {
+			const label = EVAL_MODES.length > 1 ? m : "With";
+			return `${label}: ${((data.hitsA[m] / data.total) * 100).toFixed(0)}%`;
+		});
 		const rateB = ((data.hitsB / data.total) * 100).toFixed(0);
-		console.log(`  ${pad(source, 14)} With: ${rateA}%  Without: ${rateB}%`);
+		console.log(`  ${pad(source, 14)} ${rates.join("  ")}  Without: ${rateB}%`);
 	}
 
+	printSearchTelemetry(allRuns);
 	console.log("");
 }
 
+/** Per mode: which search actually produced the injected results, and how long each search took. */
+function printSearchTelemetry(allRuns: QuestionResult[][]) {
+	console.log("\n\x1b[1mInjection search telemetry:\x1b[0m");
+	for (const mode of EVAL_MODES) {
+		const searches = allRuns
+			.flat()
+			.map((r) => r.withSearch[mode].search)
+			.filter((t): t is InjectionSearchTelemetry => t !== null);
+		if (searches.length === 0) {
+			console.log(`  ${mode.padEnd(14)} no telemetry recorded`);
+			continue;
+		}
+		const used: Record<string, number> = {};
+		for (const t of searches) used[t.used] = (used[t.used] ?? 0) + 1;
+		const latency = (["keyword", "semantic", "deep"] as const)
+			.map((m) => {
+				const samples = searches.flatMap((t) => t.latencyMs[m] ?? []);
+				if (samples.length === 0) return null;
+				const avg = samples.reduce((a, b) => a + b, 0) / samples.length;
+				const timeouts = searches.filter((t) => t.timedOut.includes(m)).length;
+				return `${m} avg ${avg.toFixed(0)}ms${timeouts > 0 ? ` (${timeouts} timed out)` : ""}`;
+			})
+			.filter(Boolean);
+		const usedStr = Object.entries(used)
+			.map(([k, n]) => `${k} ${n}`)
+			.join(", ");
+		console.log(`  ${mode.padEnd(14)} used: ${usedStr}; ${latency.join(", ")}; backend ${searches[0].backend}`);
+	}
+}
+
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
@@ -585,6 +654,7 @@ function main() {
 	console.log(`Extension: ${EXTENSION_PATH}`);
 	console.log(`Memory dir: ${MEMORY_DIR}`);
 	console.log(`Corpus: ${CORPUS.length} entries, ${QUESTIONS.length} questions, ${EVAL_RUNS} run(s)`);
+	console.log(`Injection search modes: ${EVAL_MODES.join(", ")}`);
 	console.log("");
 
 	// Preflight: check pi
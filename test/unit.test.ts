@@ -7,6 +7,7 @@
  */
 
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { execFileSync, spawn } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
@@ -15,23 +16,82 @@ import {
 	_clearUpdateTimer,
 	_getUpdateTimer,
 	_resetBaseDir,
+	_resetClockForTest,
+	_resetConfigForTest,
 	_resetExecFileForTest,
+	_resetGitForTest,
 	_setBaseDir,
+	_setClockForTest,
+	_setConfigForTest,
 	_setExecFileForTest,
+	_setProjectRoot,
 	_setQmdAvailable,
+	activateProjectScope,
+	assignScratchpadIds,
+	buildInjectionQuery,
 	buildMemoryContext,
+	chunkMemoryContent,
+	configuredSearchBackend,
+	contextTokenBudget,
 	dailyPath,
+	dailyWindowDates,
+	detectProjectRoot,
 	ensureDirs,
+	entryIdsIn,
+	estimateTokens,
+	findSnapshot,
+	formatCommitMessage,
+	formatEntryMeta,
+	formatInjectionTrace,
+	formatLineDiff,
+	fuseSearchResults,
+	getActiveProject,
+	getConfig,
+	getLastInjectionSearch,
+	getLastInjectionTrace,
+	getScopePaths,
+	heuristicTokenEstimator,
+	historyDirFor,
+	listSnapshots,
+	loadConfig,
+	localSearchBackend,
+	type MemoryEntry,
+	type MemorySearchBackend,
+	mergeMemoryEntries,
+	mergeScratchpadItems,
+	newEntryId,
 	nowTimestamp,
+	openScratchpadItems,
+	parseEntryMeta,
+	parseMemoryEntries,
 	parseScratchpad,
+	parseScratchpadDocument,
 	qmdCollectionInstructions,
+	qmdCollectionName,
 	qmdInstallInstructions,
+	qmdSearchBackend,
+	rankContextEntries,
 	readFileSafe,
+	replaceMemoryEntry,
+	resolveSearchBackend,
+	runLocalSearch,
 	type ScratchpadItem,
 	scheduleQmdUpdate,
+	searchRelevantMemories,
+	selectInjectedResults,
 	serializeScratchpad,
+	serializeScratchpadDocument,
+	setEntryPinned,
+	setTokenEstimator,
 	shortSessionId,
+	snapshotFile,
+	syncMemory,
 	todayStr,
+	tokenize,
+	updateMemoryFile,
+	withFileLock,
+	writeFileAtomic,
+	writeMemoryFile,
 	yesterdayStr,
 } from "../index.js";
 
@@ -48,8 +108,12 @@ function setupTmpDir() {
 
 function cleanupTmpDir() {
 	_resetBaseDir();
+	_setProjectRoot(null);
+	_resetConfigForTest();
+	_resetClockForTest();
 	_setQmdAvailable(false);
 	_clearUpdateTimer();
+	_resetGitForTest();
 	fs.rmSync(tmpDir, { recursive: true, force: true });
 }
 
@@ -57,6 +121,7 @@ function cleanupTmpDir() {
 function createMockPi() {
 	const tools: Record<string, any> = {};
 	const hooks: Record<string, (...args: unknown[]) => unknown> = {};
+	const commands: Record<string, any> = {};
 
 	const pi = {
 		registerTool(toolDef: any) {
@@ -65,9 +130,12 @@ function createMockPi() {
 		on(event: string, handler: (...args: unknown[]) => unknown) {
 			hooks[event] = handler;
 		},
+		registerCommand(name: string, options: any) {
+			commands[name] = options;
+		},
 	};
 
-	return { pi, tools, hooks };
+	return { pi, tools, hooks, commands };
 }
 
 /** Create a mock tool execution context. */
@@ -148,6 +216,108 @@ describe("nowTimestamp", () => {
 	});
 });
 
+describe("day boundaries", () => {
+	const at = (iso: string) => _setClockForTest(() => new Date(iso));
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+	});
+	afterEach(cleanupTmpDir);
+
+	test("follow the configured IANA time zone, not UTC", () => {
+		_setConfigForTest({ time: { timezone: "America/Los_Angeles" } });
+		at("2026-03-03T01:30:00Z"); // 17:30 on Mar 2 in Los Angeles
+		expect(todayStr()).toBe("2026-03-02");
+		expect(yesterdayStr()).toBe("2026-03-01");
+		expect(nowTimestamp()).toBe("2026-03-02 17:30:00");
+
+		_setConfigForTest({ time: { timezone: "Asia/Tokyo" } });
+		expect(todayStr()).toBe("2026-03-03");
+		expect(nowTimestamp()).toBe("2026-03-03 10:30:00");
+	});
+
+	test("rollover hour keeps late-night work on the previous day", () => {
+		_setConfigForTest({ time: { timezone: "America/New_York", rolloverHour: 4 } });
+		at("2026-03-01T07:59:00Z"); // 02:59 in New York
+		expect(todayStr()).toBe("2026-02-28");
+		expect(yesterdayStr()).toBe("2026-02-27");
+		expect(nowTimestamp()).toBe("2026-03-01 02:59:00");
+		at("2026-03-01T09:00:00Z"); // 04:00
+		expect(todayStr()).toBe("2026-03-01");
+	});
+
+	test("handles DST transitions and month/year boundaries", () => {
+		_setConfigForTest({ time: { timezone: "America/New_York", rolloverHour: 3 } });
+		// Clocks jump from 02:00 to 03:00 on 2026-03-08; 03:30 EDT is 07:30 UTC.
+		at("2026-03-08T06:59:00Z");
+		expect(todayStr()).toBe("2026-03-07");
+		at("2026-03-08T07:30:00Z");
+		expect(todayStr()).toBe("2026-03-08");
+		expect(nowTimestamp()).toBe("2026-03-08 03:30:00");
+
+		_setConfigForTest({ time: { timezone: "UTC", rolloverHour: 4 } });
+		at("2027-01-01T03:00:00Z");
+		expect(todayStr()).toBe("2026-12-31");
+		expect(yesterdayStr()).toBe("2026-12-30");
+	});
+
+	test("a simulated week of daily logs injects today and the previous logged day", async () => {
+		_setConfigForTest({ time: { timezone: "UTC" } });
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		const days = ["2026-01-30", "2026-01-31", "2026-02-01"];
+		for (const day of days) {
+			at(`${day}T12:00:00Z`);
+			await mockPi.tools.memory_write.execute(
+				"c",
+				{ target: "daily", content: `Note from ${day}` },
+				null,
+				null,
+				createMockCtx(),
+			);
+		}
+		expect(fs.readdirSync(path.join(tmpDir, "daily")).sort()).toEqual(days.map((d) => `${d}.md`));
+
+		const context = buildMemoryContext();
+		expect(context).toContain("Daily log: 2026-02-01 (today)");
+		expect(context).toContain("Daily log: 2026-01-31 (yesterday)");
+		expect(context).toContain("Note from 2026-01-31");
+		expect(context).not.toContain("Note from 2026-01-30");
+
+		at("2026-02-03T08:00:00Z");
+		const later = buildMemoryContext();
+		expect(later).toContain("Daily log: 2026-02-01 (Sunday, 2 days ago)");
+		expect(later).not.toContain("Note from 2026-01-31");
+	});
+
+	test("snapshot names follow the clock", async () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		at("2026-05-04T03:02:01.000Z");
+		await writeMemoryFile(file, "v1", "test");
+		await writeMemoryFile(file, "v2", "test");
+		expect(listSnapshots(file)[0].id).toBe("2026-05-04T03-02-01.000Z--test");
+		expect(listSnapshots(file)[0].timestamp).toBe("2026-05-04 03:02:01");
+	});
+
+	test("daily writes and injection use the rolled-over day", async () => {
+		_setConfigForTest({ time: { timezone: "Europe/Berlin", rolloverHour: 4 } });
+		at("2026-06-15T23:30:00Z"); // 01:30 on Jun 16 in Berlin
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		const result = await mockPi.tools.memory_write.execute(
+			"c",
+			{ target: "daily", content: "Late-night debugging" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.details.path).toBe(dailyPath("2026-06-15"));
+		expect(result.details.timestamp).toBe("2026-06-16 01:30:00");
+		expect(buildMemoryContext()).toContain("Daily log: 2026-06-15 (today)");
+	});
+});
+
 describe("shortSessionId", () => {
 	test("returns first 8 characters", () => {
 		expect(shortSessionId("abcdef1234567890")).toBe("abcdef12");
@@ -291,6 +461,53 @@ describe("parseScratchpad", () => {
 		expect(items[0].meta).toBe("");
 	});
 
+	test("reads the item ID from its metadata comment", () => {
+		const items = parseScratchpad("<!-- 2026-02-15 10:00:00 [abc12345] id:a1b2c3 -->\n- [ ] Task\n- [ ] No ID\n");
+		expect(items[0].id).toBe("a1b2c3");
+		expect(items[1].id).toBeUndefined();
+	});
+
+	test("reads priority, due date and tags after the text", () => {
+		const [item] = parseScratchpad("- [ ] Renew #tls cert !p1 due:2026-03-01 #ops #infra\n");
+		expect(item).toMatchObject({
+			text: "Renew #tls cert",
+			priority: "p1",
+			due: "2026-03-01",
+			tags: ["ops", "infra"],
+		});
+		const [handWritten] = parseScratchpad("- [ ] Renew cert #ops due:2026-03-01 !p0\n");
+		expect(handWritten).toMatchObject({ text: "Renew cert", priority: "p0", due: "2026-03-01", tags: ["ops"] });
+	});
+
+	test("keeps marker-like words that are not markers in the text", () => {
+		expect(parseScratchpad("- [ ] #ops\n")[0]).toEqual({ done: false, text: "#ops", meta: "" });
+		expect(parseScratchpad("- [ ] Ship due:2026-02-30 !p7\n")[0].text).toBe("Ship due:2026-02-30 !p7");
+		expect(parseScratchpad("- [ ] Fix issue #12\n")[0].text).toBe("Fix issue #12");
+	});
+
+	test("parses indented subtasks as nested items", () => {
+		const content = [
+			"- [ ] Release 1.2",
+			"  <!-- 2026-02-15 10:00:00 [abc] id:a1b2c3 -->",
+			"  - [x] Tag the commit",
+			"\t- [ ] Sign the tag",
+			"  - [ ] Publish",
+			"- [ ] Unrelated",
+		].join("\n");
+		const items = parseScratchpad(content);
+		expect(items.map((i) => [i.text, i.depth ?? 0])).toEqual([
+			["Release 1.2", 0],
+			["Tag the commit", 1],
+			["Sign the tag", 2],
+			["Publish", 1],
+			["Unrelated", 0],
+		]);
+		expect(items[1]).toMatchObject({ id: "a1b2c3", meta: "<!-- 2026-02-15 10:00:00 [abc] id:a1b2c3 -->" });
+		expect(serializeScratchpad(items)).toBe(
+			"# Scratchpad\n\n- [ ] Release 1.2\n  <!-- 2026-02-15 10:00:00 [abc] id:a1b2c3 -->\n  - [x] Tag the commit\n    - [ ] Sign the tag\n  - [ ] Publish\n- [ ] Unrelated\n",
+		);
+	});
+
 	test("handles item at first line (no preceding line for meta)", () => {
 		const items = parseScratchpad("- [ ] First line item\n");
 		expect(items).toHaveLength(1);
@@ -318,6 +535,27 @@ describe("serializeScratchpad", () => {
 		expect(result).toContain("- [ ] Task");
 	});
 
+	test("writes item IDs into the metadata comment", () => {
+		const items: ScratchpadItem[] = [
+			{ id: "a1b2c3", done: false, text: "Task", meta: "<!-- 2026-02-15 [abc] -->" },
+			{ id: "d4e5f6", done: false, text: "Hand-written", meta: "" },
+		];
+		expect(serializeScratchpad(items)).toBe(
+			"# Scratchpad\n\n<!-- 2026-02-15 [abc] id:a1b2c3 -->\n- [ ] Task\n<!-- id:d4e5f6 -->\n- [ ] Hand-written\n",
+		);
+		expect(parseScratchpad(serializeScratchpad(items)).map((i) => i.id)).toEqual(["a1b2c3", "d4e5f6"]);
+	});
+
+	test("round-trips priority, due date and tags", () => {
+		const items: ScratchpadItem[] = [
+			{ done: false, text: "Renew cert", priority: "p1", due: "2026-03-01", tags: ["ops"], meta: "" },
+			{ done: true, text: "Tidy", tags: ["chore", "later"], meta: "" },
+		];
+		const serialized = serializeScratchpad(items);
+		expect(serialized).toBe("# Scratchpad\n\n- [ ] Renew cert !p1 due:2026-03-01 #ops\n- [x] Tidy #chore #later\n");
+		expect(parseScratchpad(serialized)).toEqual(items);
+	});
+
 	test("serializes empty list", () => {
 		const result = serializeScratchpad([]);
 		expect(result).toBe("# Scratchpad\n\n");
@@ -338,6 +576,104 @@ describe("serializeScratchpad", () => {
 	});
 });
 
+describe("scratchpad document", () => {
+	const handWritten = [
+		"# Release checklist",
+		"",
+		"Things to sort out before **v2** ships.",
+		"",
+		"## Blockers",
+		"",
+		"<!-- 2026-01-01 10:00:00 [abc12345] id:a1b2c3 -->",
+		"- [ ] Fix login #auth !p0",
+		"\t- [X] Write the repro",
+		"\t- [ ] Patch the session check",
+		"",
+		"## Later",
+		"",
+		"- [ ] Update the docs",
+		"",
+		"> Ask Sam about the changelog format.",
+	].join("\n");
+
+	test("round-trips hand-written files unchanged", () => {
+		for (const content of [
+			`${handWritten}\n`,
+			handWritten,
+			"- [ ] Bare item\n",
+			"Notes only, no items\n",
+			serializeScratchpad([{ done: false, text: "Task", meta: "" }]),
+		]) {
+			const doc = parseScratchpadDocument(content);
+			expect(serializeScratchpadDocument(doc, doc.items)).toBe(content.endsWith("\n") ? content : `${content}\n`);
+		}
+	});
+
+	test("rewrites only the item lines that change", () => {
+		const doc = parseScratchpadDocument(`${handWritten}\n`);
+		const [, , patch, docs] = doc.items;
+		patch.done = true;
+		docs.priority = "p2";
+		expect(serializeScratchpadDocument(doc, doc.items)).toBe(
+			`${handWritten.replace("\t- [ ] Patch the session check", "\t- [x] Patch the session check").replace("- [ ] Update the docs", "- [ ] Update the docs !p2")}\n`,
+		);
+	});
+
+	test("drops removed items with their meta comment and keeps the surrounding lines", () => {
+		const doc = parseScratchpadDocument(`${handWritten}\n`);
+		const [login, , , docs] = doc.items;
+		expect(serializeScratchpadDocument(doc, [docs])).toBe(
+			`${handWritten.replace(/<!--.*-->\n- \[ \] Fix login.*\n\t.*\n\t.*\n/, "")}\n`,
+		);
+		expect(serializeScratchpadDocument(doc, [login])).not.toContain("Update the docs");
+	});
+
+	test("inserts new items after the item before them", () => {
+		const doc = parseScratchpadDocument(`${handWritten}\n`);
+		const [login, repro, patch, docs] = doc.items;
+		const first: ScratchpadItem = { done: false, text: "Triage", meta: "" };
+		const subtask: ScratchpadItem = { done: false, text: "Add a test", depth: 1, meta: "" };
+		const last: ScratchpadItem = { done: false, text: "Tag the release", meta: "" };
+		const lines = serializeScratchpadDocument(doc, [first, login, repro, patch, subtask, docs, last]).split("\n");
+		expect(lines.slice(6, 12)).toEqual([
+			"- [ ] Triage",
+			"<!-- 2026-01-01 10:00:00 [abc12345] id:a1b2c3 -->",
+			"- [ ] Fix login #auth !p0",
+			"\t- [X] Write the repro",
+			"\t- [ ] Patch the session check",
+			"  - [ ] Add a test",
+		]);
+		expect(lines.slice(15)).toEqual([
+			"- [ ] Update the docs",
+			"- [ ] Tag the release",
+			"",
+			"> Ask Sam about the changelog format.",
+			"",
+		]);
+	});
+
+	test("keeps the user's own comments above items as notes", () => {
+		const content = "# Todo\n\n<!-- keep this for Q3 -->\n- [ ] Plan offsite\n";
+		const doc = parseScratchpadDocument(content);
+		expect(doc.items[0].meta).toBe("");
+		assignScratchpadIds(doc.items);
+		expect(serializeScratchpadDocument(doc, doc.items)).toBe(
+			`# Todo\n\n<!-- keep this for Q3 -->\n<!-- id:${doc.items[0].id} -->\n- [ ] Plan offsite\n`,
+		);
+		expect(serializeScratchpadDocument(doc, [])).toBe("# Todo\n\n<!-- keep this for Q3 -->\n");
+	});
+
+	test("starts a paragraph for items added to a file without any, and titles empty files", () => {
+		const item: ScratchpadItem = { done: false, text: "Task", meta: "" };
+		expect(serializeScratchpadDocument(parseScratchpadDocument("# Ideas\nSome notes"), [item])).toBe(
+			"# Ideas\nSome notes\n\n- [ ] Task\n",
+		);
+		expect(serializeScratchpadDocument(parseScratchpadDocument(""), [item], "Scratchpad: ideas")).toBe(
+			"# Scratchpad: ideas\n\n- [ ] Task\n",
+		);
+	});
+});
+
 // ==========================================================================
 // 3. buildMemoryContext
 // ==========================================================================
@@ -368,6 +704,53 @@ describe("buildMemoryContext", () => {
 		expect(ctx).not.toContain("Done item");
 	});
 
+	test("orders scratchpad items by priority and due date and flags overdue ones", () => {
+		ensureDirs();
+		const content = [
+			"- [ ] Someday",
+			"- [ ] Later p2 !p2 due:2099-01-01",
+			"- [ ] Soon p2 !p2 due:2000-01-01",
+			"- [ ] Urgent !p0",
+			"- [ ] Dated due:2099-06-01",
+		].join("\n");
+		fs.writeFileSync(path.join(tmpDir, "SCRATCHPAD.md"), content, "utf-8");
+		const lines = buildMemoryContext()
+			.split("\n")
+			.filter((l) => l.startsWith("- [ ]"));
+		expect(lines).toEqual([
+			"- [ ] Urgent !p0",
+			"- [ ] **OVERDUE** Soon p2 !p2 due:2000-01-01",
+			"- [ ] Later p2 !p2 due:2099-01-01",
+			"- [ ] Dated due:2099-06-01",
+			"- [ ] Someday",
+		]);
+	});
+
+	test("keeps subtasks under their parent with progress counts", () => {
+		const items = parseScratchpad(
+			[
+				"- [ ] Chores",
+				"- [ ] Release 1.2 !p1",
+				"  - [x] Changelog",
+				"  - [ ] Publish",
+				"  - [ ] Tag !p0",
+				"    - [x] Sign",
+				"- [x] Done parent",
+				"  - [ ] Open child",
+				"- [x] Finished",
+				"  - [x] Finished child",
+			].join("\n"),
+		);
+		expect(openScratchpadItems(items, "2026-01-01").map((i) => `${"  ".repeat(i.depth ?? 0)}${i.text}`)).toEqual([
+			"Release 1.2 (2/4 subtasks done)",
+			"  Tag (1/1 subtasks done)",
+			"  Publish",
+			"Chores",
+			"Done parent (0/1 subtasks done)",
+			"  Open child",
+		]);
+	});
+
 	test("excludes scratchpad section when all items are done", () => {
 		ensureDirs();
 		const content = "# Scratchpad\n\n- [x] Done item\n";
@@ -416,6 +799,203 @@ describe("buildMemoryContext", () => {
 	});
 });
 
+describe("daily window", () => {
+	const writeDaily = (date: string, text: string) =>
+		fs.writeFileSync(path.join(tmpDir, "daily", `${date}.md`), text, "utf-8");
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		_setClockForTest(() => new Date("2026-03-09T10:00:00Z")); // a Monday
+		_setConfigForTest({ time: { timezone: "UTC" } });
+	});
+	afterEach(cleanupTmpDir);
+
+	test("a Monday session sees Friday's log after a weekend without logs", () => {
+		writeDaily("2026-03-05", "Thursday work");
+		writeDaily("2026-03-06", "Friday work");
+		const context = buildMemoryContext();
+		expect(context).toContain("## Daily log: 2026-03-06 (Friday, 3 days ago)");
+		expect(context).not.toContain("Thursday work");
+		expect(dailyWindowDates(getScopePaths("global"))).toEqual(["2026-03-09", "2026-03-06"]);
+	});
+
+	test("logged mode skips empty days and ignores future logs", () => {
+		_setConfigForTest({ time: { timezone: "UTC" }, context: { dailyWindow: { days: 3 } } });
+		for (const date of ["2026-02-20", "2026-03-02", "2026-03-06", "2026-03-10"]) writeDaily(date, `Work on ${date}`);
+		expect(dailyWindowDates(getScopePaths("global"))).toEqual(["2026-03-09", "2026-03-06", "2026-03-02"]);
+		const context = buildMemoryContext();
+		expect(context).toContain("Work on 2026-03-02");
+		expect(context).not.toContain("Work on 2026-03-10");
+		expect(context).not.toContain("Work on 2026-02-20");
+	});
+
+	test("working mode covers the previous working days, skipping weekends", () => {
+		_setConfigForTest({ time: { timezone: "UTC" }, context: { dailyWindow: { days: 3, mode: "working" } } });
+		writeDaily("2026-03-07", "Saturday hacking");
+		writeDaily("2026-03-05", "Thursday work");
+		expect(dailyWindowDates(getScopePaths("global"))).toEqual(["2026-03-09", "2026-03-06", "2026-03-05"]);
+		const context = buildMemoryContext();
+		expect(context).toContain("## Daily log: 2026-03-05 (Thursday, 4 days ago)");
+		expect(context).not.toContain("Saturday hacking");
+	});
+
+	test("older days get decaying budgets and come last", () => {
+		_setConfigForTest({ time: { timezone: "UTC" }, context: { dailyWindow: { days: 3 } } });
+		const long = (label: string) => Array.from({ length: 400 }, (_, i) => `${label} line ${i}`).join("\n");
+		writeDaily("2026-03-06", long("friday"));
+		writeDaily("2026-03-05", long("thursday"));
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "Long-term fact", "utf-8");
+		const context = buildMemoryContext(undefined, { contextWindow: 1_000_000 });
+		const section = (date: string) => context.split(`## Daily log: ${date}`)[1].split("\n---\n")[0];
+		expect(estimateTokens(section("2026-03-05"))).toBeLessThan(estimateTokens(section("2026-03-06")) * 0.6);
+		expect(context.indexOf("Long-term fact")).toBeLessThan(context.indexOf("2026-03-06"));
+		expect(context.indexOf("2026-03-06")).toBeLessThan(context.indexOf("2026-03-05"));
+	});
+
+	test("decay 0 injects only today", () => {
+		_setConfigForTest({ time: { timezone: "UTC" }, context: { dailyWindow: { decay: 0 } } });
+		writeDaily("2026-03-06", "Friday work");
+		expect(buildMemoryContext()).toBe("");
+	});
+});
+
+describe("token budgets", () => {
+	const longTerm = Array.from({ length: 2_000 }, (_, i) => `Fact number ${i} about the deployment pipeline.`).join(
+		"\n",
+	);
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), longTerm, "utf-8");
+	});
+	afterEach(() => {
+		setTokenEstimator(null);
+		cleanupTmpDir();
+	});
+
+	test("the heuristic estimator counts ~4 chars per token and one per CJK character", () => {
+		expect(heuristicTokenEstimator("")).toBe(0);
+		expect(heuristicTokenEstimator("a".repeat(400))).toBe(100);
+		expect(heuristicTokenEstimator("記憶を保存する")).toBe(7);
+	});
+
+	test("budget is a fraction of the context window, clamped, with a fallback", () => {
+		expect(contextTokenBudget()).toBe(4_000);
+		expect(contextTokenBudget(8_192)).toBe(1_000);
+		expect(contextTokenBudget(200_000)).toBe(10_000);
+		expect(contextTokenBudget(2_000_000)).toBe(20_000);
+		_setConfigForTest({ context: { tokens: { fraction: 0.1, min: 0 } } });
+		expect(contextTokenBudget(8_192)).toBe(819);
+	});
+
+	test("small models get a lean injection, large-context models a richer one", () => {
+		const small = buildMemoryContext(undefined, { contextWindow: 8_192 });
+		const large = buildMemoryContext(undefined, { contextWindow: 200_000 });
+		expect(estimateTokens(small)).toBeLessThanOrEqual(1_000);
+		expect(estimateTokens(large)).toBeLessThanOrEqual(10_000);
+		expect(estimateTokens(large)).toBeGreaterThan(estimateTokens(small) * 5);
+		expect(small).toContain("tokens]");
+	});
+
+	test("a pluggable estimator changes how much fits", () => {
+		const heuristic = buildMemoryContext();
+		setTokenEstimator((text) => text.length); // pessimistic: one token per character
+		const strict = buildMemoryContext();
+		expect(strict.length).toBeLessThan(heuristic.length / 3);
+		expect(strict.length).toBeLessThanOrEqual(4_000);
+	});
+
+	test("before_agent_start sizes the injection for ctx.model", async () => {
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		const inject = async (contextWindow: number) => {
+			const result: any = await mockPi.hooks.before_agent_start(
+				{ prompt: "", systemPrompt: "" },
+				{ ...createMockCtx(), model: { contextWindow } },
+			);
+			return result.systemPrompt as string;
+		};
+		process.env.PI_MEMORY_NO_SEARCH = "1";
+		try {
+			expect((await inject(8_192)).length).toBeLessThan((await inject(128_000)).length);
+		} finally {
+			delete process.env.PI_MEMORY_NO_SEARCH;
+		}
+	});
+});
+
+describe("entry-aware truncation", () => {
+	const entry = (id: string, body: string) =>
+		`${formatEntryMeta("2026-01-01 10:00:00", "session-1", id)}\n${body}\n${"Details. ".repeat(40)}`;
+	const writeLongTerm = (entries: string[]) =>
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), `${entries.join("\n\n")}\n`, "utf-8");
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		_setConfigForTest({ context: { tokens: { fallback: 1_000 } } });
+	});
+	afterEach(cleanupTmpDir);
+
+	test("keeps or drops whole entries and lists the omitted ones", () => {
+		writeLongTerm(Array.from({ length: 12 }, (_, i) => entry(`e${i}`, `## Topic ${i}`)));
+		const context = buildMemoryContext();
+		const kept = chunkMemoryContent(context).filter((c) => c.id);
+		expect(kept.length).toBeGreaterThan(0);
+		expect(kept.length).toBeLessThan(12);
+		for (const chunk of kept) expect(chunk.text).toContain("Details. ".repeat(40).trim());
+		expect(context).toContain(`[omitted ${12 - kept.length} of 12 entries`);
+		expect(context).toContain("id e0");
+		expect(context).not.toContain("[truncated:");
+	});
+
+	test("recent entries win when nothing else distinguishes them", () => {
+		writeLongTerm(Array.from({ length: 12 }, (_, i) => entry(`e${i}`, `## Topic ${i}`)));
+		const context = buildMemoryContext();
+		expect(context).toContain("## Topic 11");
+		expect(context).not.toContain("## Topic 0\n");
+	});
+
+	test("pinned and prompt-relevant entries survive over recent ones", () => {
+		const entries = Array.from({ length: 12 }, (_, i) => entry(`e${i}`, `## Topic ${i}`));
+		entries[1] = entry("e1", "## Release checklist #pinned");
+		entries[2] = entry("e2", "## Postgres connection pooling");
+		writeLongTerm(entries);
+		const context = buildMemoryContext(undefined, { prompt: "why is postgres pooling slow?" });
+		expect(context).toContain("## Release checklist #pinned");
+		expect(context).toContain("## Postgres connection pooling");
+		// Kept entries stay in file order.
+		expect(context.indexOf("Release checklist")).toBeLessThan(context.indexOf("Postgres connection"));
+	});
+
+	test("ranking puts pinned first, then relevance, then recency", () => {
+		const chunks = chunkMemoryContent(
+			[entry("a", "alpha #pinned"), entry("b", "deploy pipeline"), entry("c", "misc")].join("\n\n"),
+		);
+		const scores = rankContextEntries(chunks, "deploy");
+		expect(scores[0]).toBeGreaterThan(scores[1]);
+		expect(scores[1]).toBeGreaterThan(scores[2]);
+		expect(rankContextEntries(chunks)[2]).toBeGreaterThan(rankContextEntries(chunks)[1]);
+	});
+
+	test("hand-written files are split on headings and named by title", () => {
+		const sections = Array.from({ length: 12 }, (_, i) => `## Section ${i}\n${"Notes. ".repeat(60)}`);
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), sections.join("\n\n"), "utf-8");
+		const context = buildMemoryContext();
+		expect(context).toContain('"Section 0"');
+		expect(context).toMatch(/\[omitted \d+ of 12 entries/);
+	});
+
+	test("falls back to line truncation when no single entry fits", () => {
+		writeLongTerm([entry("big1", "Huge. ".repeat(2_000)), entry("big2", "Huge. ".repeat(2_000))]);
+		const context = buildMemoryContext();
+		expect(context).toContain("[truncated:");
+		expect(context).not.toContain("[omitted");
+	});
+});
+
 // ==========================================================================
 // 4. QMD helper functions
 // ==========================================================================
@@ -750,16 +1330,324 @@ describe("scratchpad tool", () => {
 		expect(result.details.open).toBe(2);
 	});
 
-	test("done only matches first matching item", async () => {
+	test("done with ambiguous text lists the candidates and changes nothing", async () => {
 		const ctx = createMockCtx();
 		await tools.scratchpad.execute("c1", { action: "add", text: "Fix bug A" }, null, null, ctx);
 		await tools.scratchpad.execute("c2", { action: "add", text: "Fix bug B" }, null, null, ctx);
-		await tools.scratchpad.execute("c3", { action: "done", text: "Fix bug" }, null, null, ctx);
-		const content = fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8");
-		// Only first match should be done
-		const items = parseScratchpad(content);
-		expect(items[0].done).toBe(true);
-		expect(items[1].done).toBe(false);
+		const before = fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8");
+		const result = await tools.scratchpad.execute("c3", { action: "done", text: "Fix bug" }, null, null, ctx);
+		const [a, b] = parseScratchpad(before);
+		expect(result.content[0].text).toBe(
+			`"Fix bug" matches 2 open items; nothing changed. Retry with an ID or the full text of one of them:\n- [ ] Fix bug A (id:${a.id})\n- [ ] Fix bug B (id:${b.id})`,
+		);
+		expect(result.details.candidates).toEqual([
+			{ id: a.id, done: false, text: "Fix bug A", line: 4 },
+			{ id: b.id, done: false, text: "Fix bug B", line: 6 },
+		]);
+		expect(fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8")).toBe(before);
+	});
+
+	test("exact text wins over a longer item containing it", async () => {
+		const ctx = createMockCtx();
+		await tools.scratchpad.execute("c1", { action: "add", text: "fix auth bug in admin" }, null, null, ctx);
+		await tools.scratchpad.execute("c2", { action: "add", text: "fix auth bug" }, null, null, ctx);
+		await tools.scratchpad.execute("c3", { action: "done", text: "Fix auth bug" }, null, null, ctx);
+		const items = parseScratchpad(fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8"));
+		expect(items.map((i) => i.done)).toEqual([false, true]);
+	});
+
+	test("add assigns an ID; done, undo, edit and remove accept it", async () => {
+		const ctx = createMockCtx();
+		const added = await tools.scratchpad.execute("c1", { action: "add", text: "Fix bug" }, null, null, ctx);
+		await tools.scratchpad.execute("c2", { action: "add", text: "Fix bug" }, null, null, ctx);
+		const { id } = added.details;
+		expect(id).toMatch(/^[a-z0-9]{6}$/);
+		expect(added.content[0].text).toContain(`Added: - [ ] Fix bug (id:${id})`);
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		expect(fs.readFileSync(file, "utf-8")).toContain(`[abcdef12] id:${id} -->\n- [ ] Fix bug`);
+
+		const done = await tools.scratchpad.execute("c3", { action: "done", text: id }, null, null, ctx);
+		expect(done.content[0].text).toStartWith(`Updated: - [x] Fix bug (id:${id})`);
+		await tools.scratchpad.execute("c4", { action: "undo", item: `id:${id}` }, null, null, ctx);
+		const edited = await tools.scratchpad.execute(
+			"c5",
+			{ action: "edit", item: id, text: "Fix bug #12" },
+			null,
+			null,
+			ctx,
+		);
+		expect(edited.content[0].text).toStartWith(`Edited: - [ ] Fix bug #12 (id:${id})`);
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8")).map((i) => i.text)).toEqual(["Fix bug #12", "Fix bug"]);
+
+		const removed = await tools.scratchpad.execute("c6", { action: "remove", text: id }, null, null, ctx);
+		expect(removed.content[0].text).toStartWith(`Removed: - [ ] Fix bug #12 (id:${id})`);
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8")).map((i) => i.text)).toEqual(["Fix bug"]);
+	});
+
+	test("add and edit set priority, due date and tags", async () => {
+		const ctx = createMockCtx();
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		await tools.scratchpad.execute(
+			"c1",
+			{ action: "add", text: "Renew cert", priority: "p1", due: "2026-03-01", tags: ["#ops"] },
+			null,
+			null,
+			ctx,
+		);
+		await tools.scratchpad.execute("c2", { action: "add", text: "Rotate keys !p0 #security" }, null, null, ctx);
+		expect(fs.readFileSync(file, "utf-8")).toContain("- [ ] Renew cert !p1 due:2026-03-01 #ops");
+		expect(fs.readFileSync(file, "utf-8")).toContain("- [ ] Rotate keys !p0 #security");
+
+		await tools.scratchpad.execute(
+			"c3",
+			{ action: "edit", item: "Renew cert", text: "Renew TLS cert" },
+			null,
+			null,
+			ctx,
+		);
+		expect(fs.readFileSync(file, "utf-8")).toContain("- [ ] Renew TLS cert !p1 due:2026-03-01 #ops");
+		await tools.scratchpad.execute(
+			"c4",
+			{ action: "edit", item: "Renew TLS cert", priority: "none", due: "2026-04-01", tags: [] },
+			null,
+			null,
+			ctx,
+		);
+		expect(fs.readFileSync(file, "utf-8")).toContain("- [ ] Renew TLS cert due:2026-04-01\n");
+	});
+
+	test("rejects invalid due dates and tags", async () => {
+		const ctx = createMockCtx();
+		const due = await tools.scratchpad.execute(
+			"c1",
+			{ action: "add", text: "X", due: "2026-02-30" },
+			null,
+			null,
+			ctx,
+		);
+		expect(due.content[0].text).toBe("Invalid due date: 2026-02-30. Use YYYY-MM-DD.");
+		const tag = await tools.scratchpad.execute(
+			"c2",
+			{ action: "add", text: "X", tags: ["two words"] },
+			null,
+			null,
+			ctx,
+		);
+		expect(tag.isError).toBe(true);
+		expect(fs.existsSync(path.join(tmpDir, "SCRATCHPAD.md"))).toBe(false);
+	});
+
+	test("subtasks: add under a parent, complete, remove and clear", async () => {
+		const ctx = createMockCtx();
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		const run = (params: Record<string, unknown>) => tools.scratchpad.execute("c", params, null, null, ctx);
+		await run({ action: "add", text: "Release 1.2" });
+		await run({ action: "add", text: "Other" });
+		await run({ action: "add", text: "Changelog", parent: "Release 1.2" });
+		const added = await run({ action: "add", text: "Publish", parent: "Release 1.2" });
+		expect(added.content[0].text).toStartWith("Added: - [ ] Publish (id:");
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8")).map((i) => [i.text, i.depth ?? 0])).toEqual([
+			["Release 1.2", 0],
+			["Changelog", 1],
+			["Publish", 1],
+			["Other", 0],
+		]);
+		expect((await run({ action: "add", text: "X", parent: "nope" })).content[0].text).toBe(
+			'No matching item found for: "nope"',
+		);
+
+		await run({ action: "done", text: "Changelog" });
+		const done = await run({ action: "done", text: "Release 1.2" });
+		expect(done.content[0].text).toContain("(1 open subtask(s) left; pass subtasks: true to complete them too)");
+		await run({ action: "undo", text: "Release 1.2" });
+		const cascaded = await run({ action: "done", text: "Release 1.2", subtasks: true });
+		expect(cascaded.content[0].text).toContain("(and 1 open subtask(s))");
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8")).map((i) => i.done)).toEqual([true, true, true, false]);
+
+		await run({ action: "undo", text: "Publish" });
+		const cleared = await run({ action: "clear_done" });
+		expect(cleared.content[0].text).toContain("Cleared 1 done item(s)");
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8")).map((i) => i.text)).toEqual([
+			"Release 1.2",
+			"Publish",
+			"Other",
+		]);
+
+		const removed = await run({ action: "remove", text: "Release 1.2" });
+		expect(removed.content[0].text).toContain("(and 1 subtask(s))");
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8")).map((i) => i.text)).toEqual(["Other"]);
+	});
+
+	test("edit requires the item and the new text", async () => {
+		const ctx = createMockCtx();
+		await tools.scratchpad.execute("c1", { action: "add", text: "Task" }, null, null, ctx);
+		const noItem = await tools.scratchpad.execute("c2", { action: "edit", text: "New" }, null, null, ctx);
+		expect(noItem.content[0].text).toBe("Error: 'item' is required for edit.");
+		const noText = await tools.scratchpad.execute("c3", { action: "edit", item: "Task" }, null, null, ctx);
+		expect(noText.content[0].text).toBe("Error: 'text', 'priority', 'due' or 'tags' is required for edit.");
+	});
+
+	test("list shows IDs and persists them for hand-written items", async () => {
+		const ctx = createMockCtx();
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		fs.writeFileSync(
+			file,
+			"# Scratchpad\n\n- [ ] Written by hand\n<!-- 2026-01-01 10:00:00 [old] -->\n- [x] Older item\n",
+		);
+		const result = await tools.scratchpad.execute("c1", { action: "list" }, null, null, ctx);
+		const items = parseScratchpad(fs.readFileSync(file, "utf-8"));
+		expect(items.map((i) => i.meta)).toEqual([
+			`<!-- id:${items[0].id} -->`,
+			`<!-- 2026-01-01 10:00:00 [old] id:${items[1].id} -->`,
+		]);
+		expect(result.content[0].text).toContain(
+			`- [ ] Written by hand (id:${items[0].id})\n- [x] Older item (id:${items[1].id})`,
+		);
+	});
+
+	test("writes keep the headings and notes of a hand-written scratchpad", async () => {
+		const ctx = createMockCtx();
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		const handWritten =
+			"# Todo\n\n## This week\n- [ ] Fix login\n\n## Later\n- [ ] Fix logout\n\n## Notes\nBuild breaks on Node 18.\n";
+		fs.writeFileSync(file, handWritten);
+
+		await tools.scratchpad.execute("c1", { action: "done", text: "Fix login" }, null, null, ctx);
+		await tools.scratchpad.execute("c2", { action: "add", text: "Bump Node" }, null, null, ctx);
+		const content = fs.readFileSync(file, "utf-8");
+		const [login, , bump] = parseScratchpad(content);
+		expect(content).toBe(
+			`# Todo\n\n## This week\n<!-- id:${login.id} -->\n- [x] Fix login\n\n## Later\n- [ ] Fix logout\n${bump.meta}\n- [ ] Bump Node\n\n## Notes\nBuild breaks on Node 18.\n`,
+		);
+
+		// An ambiguous reference writes nothing; candidates without an ID are shown by their line.
+		const ambiguous = await tools.scratchpad.execute("c3", { action: "remove", text: "Fix" }, null, null, ctx);
+		expect(ambiguous.content[0].text).toEndWith(`- [x] Fix login (id:${login.id})\n- [ ] Fix logout (line 8)`);
+		expect(fs.readFileSync(file, "utf-8")).toBe(content);
+	});
+
+	test("add with a missing or ambiguous parent writes nothing", async () => {
+		const ctx = createMockCtx();
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		fs.writeFileSync(file, "# Scratchpad\n\n- [ ] Fix login\n- [ ] Fix logout\n");
+		const missing = await tools.scratchpad.execute(
+			"c1",
+			{ action: "add", text: "Repro", parent: "nope" },
+			null,
+			null,
+			ctx,
+		);
+		expect(missing.content[0].text).toBe('No matching item found for: "nope"');
+		const ambiguous = await tools.scratchpad.execute(
+			"c2",
+			{ action: "add", text: "Repro", parent: "Fix" },
+			null,
+			null,
+			ctx,
+		);
+		expect(ambiguous.details.candidates.map((c: any) => [c.id, c.line])).toEqual([
+			[undefined, 3],
+			[undefined, 4],
+		]);
+		expect(fs.readFileSync(file, "utf-8")).toBe("# Scratchpad\n\n- [ ] Fix login\n- [ ] Fix logout\n");
+		expect(listSnapshots(file)).toHaveLength(0);
+	});
+
+	test("named lists keep their items in scratchpads/<name>.md", async () => {
+		const ctx = createMockCtx();
+		const run = (params: Record<string, unknown>) => tools.scratchpad.execute("c", params, null, null, ctx);
+		const file = path.join(tmpDir, "scratchpads", "release.md");
+
+		const missing = await run({ action: "add", text: "Tag v2", list: "release" });
+		expect(missing.isError).toBe(true);
+		expect(missing.content[0].text).toContain("create_list");
+
+		expect((await run({ action: "create_list", list: "release" })).content[0].text).toBe(
+			'Created list "release" (scratchpads/release.md).',
+		);
+		expect((await run({ action: "create_list", list: "release" })).isError).toBe(true);
+		expect((await run({ action: "list", list: "release" })).content[0].text).toBe('List "release" is empty.');
+
+		await run({ action: "add", text: "Tag v2", list: "release" });
+		await run({ action: "add", text: "Main item" });
+		const content = fs.readFileSync(file, "utf-8");
+		expect(content).toStartWith("# Scratchpad: release\n");
+		expect(parseScratchpad(content).map((i) => i.text)).toEqual(["Tag v2"]);
+		expect(parseScratchpad(fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8")).map((i) => i.text)).toEqual([
+			"Main item",
+		]);
+
+		await run({ action: "done", text: "Tag v2", list: "release" });
+		expect(parseScratchpad(fs.readFileSync(file, "utf-8"))[0].done).toBe(true);
+
+		const lists = await run({ action: "lists" });
+		expect(lists.content[0].text).toBe(
+			"Scratchpad lists:\n- default (SCRATCHPAD.md): 1 open of 1, injected\n- release (scratchpads/release.md): 0 open of 1, injected",
+		);
+		expect(lists.details.lists).toEqual(["default", "release"]);
+	});
+
+	test("rename_list and archive_list move the list file", async () => {
+		const ctx = createMockCtx();
+		const run = (params: Record<string, unknown>) => tools.scratchpad.execute("c", params, null, null, ctx);
+		await run({ action: "create_list", list: "ideas" });
+		await run({ action: "add", text: "Try dark mode", list: "ideas" });
+
+		const renamed = await run({ action: "rename_list", list: "ideas", name: "someday" });
+		expect(renamed.content[0].text).toBe('Renamed list "ideas" to "someday" (scratchpads/someday.md).');
+		expect(fs.existsSync(path.join(tmpDir, "scratchpads", "ideas.md"))).toBe(false);
+		const content = fs.readFileSync(path.join(tmpDir, "scratchpads", "someday.md"), "utf-8");
+		expect(content).toStartWith("# Scratchpad: someday\n");
+		expect(parseScratchpad(content).map((i) => i.text)).toEqual(["Try dark mode"]);
+
+		const archived = await run({ action: "archive_list", list: "someday" });
+		expect(archived.content[0].text).toBe('Archived list "someday" to scratchpads/archive/someday.md.');
+		expect(fs.existsSync(path.join(tmpDir, "scratchpads", "someday.md"))).toBe(false);
+		expect(fs.readFileSync(path.join(tmpDir, "scratchpads", "archive", "someday.md"), "utf-8")).toBe(content);
+
+		await run({ action: "create_list", list: "someday" });
+		const again = await run({ action: "archive_list", list: "someday" });
+		expect(again.content[0].text).toBe('Archived list "someday" to scratchpads/archive/someday-2.md.');
+		expect((await run({ action: "lists" })).details.lists).toEqual(["default"]);
+
+		expect((await run({ action: "archive_list" })).isError).toBe(true);
+		expect((await run({ action: "rename_list", list: "missing", name: "other" })).isError).toBe(true);
+	});
+
+	test("rejects invalid list names", async () => {
+		const ctx = createMockCtx();
+		const result = await tools.scratchpad.execute(
+			"c1",
+			{ action: "create_list", list: "../escape" },
+			null,
+			null,
+			ctx,
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Invalid list name: ../escape. Use lowercase letters, digits, '-' and '_'.");
+		expect(fs.existsSync(path.join(tmpDir, "escape.md"))).toBe(false);
+	});
+
+	test("scratchpad.inject picks the lists injected into context", async () => {
+		const ctx = createMockCtx();
+		const run = (params: Record<string, unknown>) => tools.scratchpad.execute("c", params, null, null, ctx);
+		await run({ action: "add", text: "Main item" });
+		await run({ action: "create_list", list: "release" });
+		await run({ action: "add", text: "Tag v2", list: "release" });
+		await run({ action: "create_list", list: "ideas" });
+		await run({ action: "add", text: "Try dark mode", list: "ideas" });
+
+		const all = buildMemoryContext();
+		expect(all).toContain("## SCRATCHPAD.md (working context)");
+		expect(all).toContain("## scratchpads/release.md (working context)");
+		expect(all).toContain("Try dark mode");
+
+		_setConfigForTest({ scratchpad: { inject: ["release"] } });
+		const some = buildMemoryContext();
+		expect(some).not.toContain("Main item");
+		expect(some).toContain("Tag v2");
+		expect(some).not.toContain("Try dark mode");
+		expect((await run({ action: "lists" })).details.injected).toEqual(["release"]);
 	});
 });
 
@@ -825,6 +1713,17 @@ describe("memory_read tool", () => {
 		expect(result.content[0].text).toContain("empty or does not exist");
 	});
 
+	test("read a named scratchpad list", async () => {
+		fs.mkdirSync(path.join(tmpDir, "scratchpads"));
+		fs.writeFileSync(path.join(tmpDir, "scratchpads", "release.md"), "# Scratchpad: release\n\n- [ ] Tag v2\n");
+		const result = await tools.memory_read.execute("c1", { target: "scratchpad", list: "release" }, null, null, {});
+		expect(result.content[0].text).toContain("Tag v2");
+		const missing = await tools.memory_read.execute("c2", { target: "scratchpad", list: "ideas" }, null, null, {});
+		expect(missing.content[0].text).toBe("scratchpads/ideas.md is empty or does not exist.");
+		const invalid = await tools.memory_read.execute("c3", { target: "scratchpad", list: "../x" }, null, null, {});
+		expect(invalid.isError).toBe(true);
+	});
+
 	// -- daily --
 
 	test("read daily defaults to today", async () => {
@@ -919,7 +1818,7 @@ describe("memory_search tool", () => {
 		expect(tools.memory_search.name).toBe("memory_search");
 	});
 
-	test("returns error with setup instructions when qmd not fully configured", async () => {
+	test("falls back to the built-in index when qmd is not installed", async () => {
 		const execStub = ((...args: any[]) => {
 			const callback = args[args.length - 1] as (err: Error | null, stdout: string, stderr: string) => void;
 			callback(new Error("qmd not found"), "", "");
@@ -927,11 +1826,35 @@ describe("memory_search tool", () => {
 
 		_setExecFileForTest(execStub);
 		_setQmdAvailable(false);
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "<!-- ts [s] -->\nWe deploy with Fly.io", "utf-8");
 
 		try {
-			const result = await tools.memory_search.execute("c1", { query: "test" }, null, null, {});
-			expect(result.isError).toBe(true);
-			expect(result.content[0].text).toContain("qmd");
+			const result = await tools.memory_search.execute("c1", { query: "deploy" }, null, null, {});
+			expect(result.isError).toBeUndefined();
+			expect(result.details.backend).toBe("local");
+			expect(result.content[0].text).toContain("**File:** MEMORY.md");
+			expect(result.content[0].text).toContain("Fly.io");
+		} finally {
+			_resetExecFileForTest();
+		}
+	});
+
+	test("semantic mode without qmd runs keyword search and says so", async () => {
+		_setExecFileForTest(((...args: any[]) => {
+			const callback = args[args.length - 1] as (err: Error | null, stdout: string, stderr: string) => void;
+			callback(new Error("qmd not found"), "", "");
+		}) as any);
+		try {
+			const result = await tools.memory_search.execute(
+				"c1",
+				{ query: "anything", mode: "semantic" },
+				null,
+				null,
+				{},
+			);
+			expect(result.details.mode).toBe("keyword");
+			expect(result.details.backend).toBe("local");
+			expect(result.content[0].text).toContain("local search backend has no semantic mode");
 		} finally {
 			_resetExecFileForTest();
 		}
@@ -946,40 +1869,676 @@ describe("memory_search tool", () => {
 	});
 });
 
-// ==========================================================================
-// 9. Lifecycle hooks
-// ==========================================================================
-
-describe("lifecycle hooks", () => {
-	let hooks: Record<string, (...args: unknown[]) => unknown>;
-
+describe("built-in local search", () => {
 	beforeEach(() => {
 		setupTmpDir();
 		ensureDirs();
 		_setQmdAvailable(false);
-		const mockPi = createMockPi();
-		hooks = mockPi.hooks;
-		registerExtension(mockPi.pi as any);
 	});
-
 	afterEach(cleanupTmpDir);
 
-	test("registers all expected hooks", () => {
-		expect(hooks.session_start).toBeDefined();
-		expect(hooks.session_shutdown).toBeDefined();
-		expect(hooks.before_agent_start).toBeDefined();
-		expect(hooks.session_before_compact).toBeDefined();
+	test("tokenize lowercases, drops stopwords and splits tags/links", () => {
+		expect(tokenize("What DB do we use? #decision [[database-choice]]")).toEqual([
+			"db",
+			"use",
+			"decision",
+			"database",
+			"choice",
+		]);
+	});
+
+	test("chunkMemoryContent splits on metadata comments", () => {
+		const chunks = chunkMemoryContent(
+			[
+				"<!-- 2026-01-01 10:00:00 [a] -->",
+				"## Auth",
+				"Use JWT",
+				"",
+				"<!-- 2026-01-02 [b] -->",
+				"Chose Postgres",
+			].join("\n"),
+		);
+		expect(chunks).toHaveLength(2);
+		expect(chunks[0].title).toBe("Auth");
+		expect(chunks[0].text).toContain("Use JWT");
+		expect(chunks[1].text).toStartWith("<!-- 2026-01-02 [b] -->");
 	});
 
-	// -- before_agent_start --
+	test("chunkMemoryContent splits hand-written files on headings", () => {
+		const chunks = chunkMemoryContent("# Prefs\nDark mode\n\n## Tools\nNeovim");
+		expect(chunks.map((c) => c.title)).toEqual(["Prefs", "Tools"]);
+	});
 
-	test("before_agent_start returns undefined when no memory files", async () => {
-		const event = { systemPrompt: "base prompt" };
-		const result = await hooks.before_agent_start(event, {});
-		expect(result).toBeUndefined();
+	test("chunkMemoryContent keeps headings inside tool-written entries", () => {
+		const chunks = chunkMemoryContent(
+			"# Notes\nintro\n\n## Old\nhand-written\n<!-- t1 [a] #abc123 -->\n## Session Handoff\n### Next\nship it",
+		);
+		expect(chunks.map((c) => c.title)).toEqual(["Notes", "Old", "Session Handoff"]);
+		expect(chunks[2].text).toContain("### Next");
+	});
+
+	test("runLocalSearch ranks entries with BM25 and returns qmd-shaped results", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "MEMORY.md"),
+			[
+				"<!-- t1 [a] -->",
+				"#decision Chose PostgreSQL for the billing service.",
+				"<!-- t2 [a] -->",
+				"User prefers tabs over spaces.",
+				"<!-- t3 [a] -->",
+				"PostgreSQL replicas live in us-east. PostgreSQL backups run nightly.",
+			].join("\n"),
+			"utf-8",
+		);
+		fs.writeFileSync(
+			path.join(tmpDir, "daily", "2026-02-01.md"),
+			"<!-- t4 [b] -->\nDebugged billing webhooks",
+			"utf-8",
+		);
+
+		const results = runLocalSearch("postgresql billing", 5);
+		expect(results.length).toBe(3);
+		expect(results[0].snippet).toContain("Chose PostgreSQL for the billing service");
+		expect(results.map((r) => r.path)).toContain("daily/2026-02-01.md");
+		for (const r of results) {
+			expect(r.score).toBeGreaterThan(0);
+			expect(r.score).toBeLessThan(1);
+		}
+		expect(runLocalSearch("kubernetes", 5)).toHaveLength(0);
 	});
 
-	test("before_agent_start injects memory into system prompt", async () => {
+	test("index picks up writes without explicit invalidation", () => {
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "<!-- t1 -->\nalpha", "utf-8");
+		expect(runLocalSearch("bravo", 5)).toHaveLength(0);
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "<!-- t1 -->\nalpha\n<!-- t2 -->\nbravo entry", "utf-8");
+		expect(runLocalSearch("bravo", 5)).toHaveLength(1);
+	});
+
+	test("searchRelevantMemories uses the local index when qmd is unavailable", async () => {
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "<!-- t1 -->\n#decision Chose PostgreSQL", "utf-8");
+		const injected = await searchRelevantMemories("Which PostgreSQL version?");
+		expect(injected).toContain("_MEMORY.md_");
+		expect(injected).toContain("Chose PostgreSQL");
+	});
+});
+
+/**
+ * Minimal in-memory qmd CLI: tracks collections and answers `search` with a substring
+ * match over the collection's files, in qmd's JSON shape. Set `snippets` to override hit text.
+ */
+function createFakeQmd() {
+	const collections = new Map<string, string>();
+	const calls: string[][] = [];
+	const fake = { exec: null as any, collections, calls, snippets: null as string[] | null };
+	fake.exec = ((file: string, args: string[], _opts: any, cb: any) => {
+		calls.push(args);
+		if (file !== "qmd") return cb(new Error(`Unexpected command: ${file}`), "", "");
+		const [cmd, sub] = args;
+		if (cmd === "status" || cmd === "update" || cmd === "context") return cb(null, "", "");
+		if (cmd === "collection" && sub === "list") return cb(null, JSON.stringify([...collections.keys()]), "");
+		if (cmd === "collection" && sub === "add") {
+			collections.set(args[args.indexOf("--name") + 1], args[2]);
+			return cb(null, "", "");
+		}
+		if (cmd === "search" || cmd === "vsearch" || cmd === "query") {
+			const name = args[args.indexOf("-c") + 1];
+			const limit = Number(args[args.indexOf("-n") + 1]);
+			const query = args[args.length - 1].toLowerCase();
+			const dir = collections.get(name);
+			if (!dir) return cb(new Error(`Collection not found: ${name}`), "", "");
+			const hits = (fs.readdirSync(dir, { recursive: true }) as string[])
+				.filter((rel) => rel.endsWith(".md"))
+				.map((rel) => ({ rel, text: fs.readFileSync(path.join(dir, rel), "utf-8") }))
+				.filter(({ text }) => query.split(/\s+/).some((term) => text.toLowerCase().includes(term)))
+				.slice(0, limit)
+				.map(({ rel, text }, i) => ({
+					file: `qmd://${name}/${rel}`,
+					score: 0.5,
+					snippet: fake.snippets?.[i] ?? text,
+				}));
+			return cb(null, JSON.stringify(hits), "");
+		}
+		return cb(new Error(`Unexpected qmd args: ${args.join(" ")}`), "", "");
+	}) as any;
+	return fake;
+}
+
+// Every backend must satisfy the same contract. New backends add an entry here.
+const backendContracts: { name: string; setup: () => MemorySearchBackend }[] = [
+	{ name: "local", setup: () => localSearchBackend },
+	{
+		name: "qmd",
+		setup: () => {
+			_setExecFileForTest(createFakeQmd().exec);
+			return qmdSearchBackend;
+		},
+	},
+];
+
+for (const contract of backendContracts) {
+	describe(`search backend contract: ${contract.name}`, () => {
+		let backend: MemorySearchBackend;
+
+		beforeEach(() => {
+			setupTmpDir();
+			ensureDirs();
+			backend = contract.setup();
+			fs.writeFileSync(
+				path.join(tmpDir, "MEMORY.md"),
+				"<!-- t1 [a] -->\n#decision Chose PostgreSQL for billing\n\n<!-- t2 [a] -->\nPrefers tabs",
+				"utf-8",
+			);
+			fs.writeFileSync(
+				path.join(tmpDir, "daily", "2026-02-01.md"),
+				"<!-- t3 [b] -->\nPostgreSQL migration",
+				"utf-8",
+			);
+		});
+		afterEach(() => {
+			_resetExecFileForTest();
+			cleanupTmpDir();
+		});
+
+		test("has a name and supports keyword mode", () => {
+			expect(backend.name).toBe(contract.name);
+			expect(backend.modes).toContain("keyword");
+		});
+
+		test("detect reports availability and updates isAvailable", async () => {
+			expect(await backend.detect()).toBe(true);
+			expect(backend.isAvailable()).toBe(true);
+		});
+
+		test("ensureIndex accepts the global scope and refuses an inactive project scope", async () => {
+			await backend.detect();
+			expect(await backend.ensureIndex("global")).toBe(true);
+			expect(await backend.ensureIndex("project")).toBe(false);
+		});
+
+		test("keyword search returns matching files with a path and a 0..1 score", async () => {
+			await backend.detect();
+			await backend.ensureIndex("global");
+			const { results } = await backend.search("keyword", "postgresql", { limit: 5, scope: "global" });
+			expect(results.length).toBeGreaterThan(0);
+			for (const r of results) {
+				expect(r.path ?? r.file).toBeTruthy();
+				expect(r.score).toBeGreaterThan(0);
+				expect(r.score).toBeLessThanOrEqual(1);
+				expect(r.content ?? r.chunk ?? r.snippet).toContain("PostgreSQL");
+			}
+		});
+
+		test("search respects the limit and returns nothing for unknown terms", async () => {
+			await backend.detect();
+			await backend.ensureIndex("global");
+			const limited = await backend.search("keyword", "postgresql", { limit: 1, scope: "global" });
+			expect(limited.results).toHaveLength(1);
+			const none = await backend.search("keyword", "kubernetes", { limit: 5, scope: "global" });
+			expect(none.results).toHaveLength(0);
+		});
+
+		test("update sees newly written content", async () => {
+			await backend.detect();
+			await backend.ensureIndex("global");
+			const file = path.join(tmpDir, "MEMORY.md");
+			fs.appendFileSync(file, "\n\n<!-- t4 [c] -->\nRedis cache for sessions", "utf-8");
+			await backend.update([file], { wait: true });
+			const { results } = await backend.search("keyword", "redis", { limit: 5, scope: "global" });
+			expect(results).toHaveLength(1);
+		});
+	});
+}
+
+describe("search backend selection", () => {
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+	});
+	afterEach(() => {
+		_resetExecFileForTest();
+		cleanupTmpDir();
+	});
+
+	test("qmd is the configured backend by default", () => {
+		expect(configuredSearchBackend()).toBe(qmdSearchBackend);
+	});
+
+	test("falls back to the built-in index when the configured backend is unavailable", async () => {
+		_setExecFileForTest(((...args: any[]) => args[args.length - 1](new Error("qmd not found"), "", "")) as any);
+		expect(await resolveSearchBackend(true)).toBe(localSearchBackend);
+		_setQmdAvailable(true);
+		expect(await resolveSearchBackend()).toBe(qmdSearchBackend);
+	});
+
+	test("search.backend=local never calls qmd", async () => {
+		fs.writeFileSync(path.join(tmpDir, "config.json"), JSON.stringify({ search: { backend: "local" } }), "utf-8");
+		const fake = createFakeQmd();
+		_setExecFileForTest(fake.exec);
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "<!-- t1 -->\nChose PostgreSQL", "utf-8");
+
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		await mockPi.hooks.session_start({}, { ...createMockCtx(), hasUI: false });
+		const result = await mockPi.tools.memory_search.execute("c1", { query: "postgresql" }, null, null, {});
+
+		expect(fake.calls).toHaveLength(0);
+		expect(result.details.backend).toBe("local");
+		expect(result.content[0].text).toContain("Chose PostgreSQL");
+	});
+
+	test("session_start sets up the configured backend's index", async () => {
+		const fake = createFakeQmd();
+		_setExecFileForTest(fake.exec);
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		await mockPi.hooks.session_start({}, { ...createMockCtx(), hasUI: false });
+		expect(fake.collections.get("pi-memory")).toBe(tmpDir);
+	});
+});
+
+describe("injection search modes", () => {
+	let fake: ReturnType<typeof createFakeQmd>;
+	let semantic: {
+		delayMs: number;
+		hits: { file: string; score: number; snippet: string }[];
+		signal?: AbortSignal;
+	};
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		fs.writeFileSync(
+			path.join(tmpDir, "MEMORY.md"),
+			"<!-- t1 id:aaaaaa -->\n#decision Chose PostgreSQL\n\n<!-- t2 id:bbbbbb -->\nDatabase backups run nightly",
+			"utf-8",
+		);
+		fake = createFakeQmd();
+		fake.snippets = ["Database backups run nightly"];
+		semantic = { delayMs: 0, hits: [{ file: "qmd://pi-memory/MEMORY.md", score: 0.8, snippet: "Chose PostgreSQL" }] };
+		// vsearch answers with `semantic.hits` (a paraphrase match), after `semantic.delayMs`.
+		_setExecFileForTest(((file: string, args: string[], opts: any, cb: any) => {
+			if (args[0] !== "vsearch") return fake.exec(file, args, opts, cb);
+			semantic.signal = opts.signal;
+			setTimeout(() => cb(null, JSON.stringify(semantic.hits), ""), semantic.delayMs);
+		}) as any);
+		_setQmdAvailable(true);
+	});
+	afterEach(() => {
+		delete process.env.PI_MEMORY_SEARCH_TELEMETRY;
+		delete process.env.PI_MEMORY_INJECTION_MODE;
+		_resetExecFileForTest();
+		cleanupTmpDir();
+	});
+
+	test("keyword is the default and records its latency", async () => {
+		const injected = await searchRelevantMemories("backups schedule");
+		expect(injected).toContain("Database backups run nightly");
+		expect(getLastInjectionSearch()).toMatchObject({
+			backend: "qmd",
+			requested: "keyword",
+			used: "keyword",
+			timedOut: [],
+			results: 1,
+		});
+		expect(Object.keys(getLastInjectionSearch()!.latencyMs)).toEqual(["keyword"]);
+		expect(fake.calls.some((args) => args[0] === "vsearch")).toBe(false);
+	});
+
+	test("semantic mode finds paraphrases keyword search misses", async () => {
+		_setConfigForTest({ search: { injection: { mode: "semantic" } } });
+		const injected = await searchRelevantMemories("what database engine?");
+		expect(injected).toContain("Chose PostgreSQL");
+		expect(getLastInjectionSearch()).toMatchObject({ requested: "semantic", used: "semantic", results: 1 });
+		expect(getLastInjectionSearch()!.latencyMs.semantic).toBeGreaterThanOrEqual(0);
+	});
+
+	test("a semantic search past its deadline falls back to the keyword results", async () => {
+		_setConfigForTest({ search: { injection: { mode: "semantic", timeoutMs: { semantic: 20 } } } });
+		semantic.delayMs = 300;
+		const start = Date.now();
+		const injected = await searchRelevantMemories("backups schedule");
+		expect(Date.now() - start).toBeLessThan(250);
+		expect(injected).toContain("Database backups run nightly");
+		expect(injected).not.toContain("Chose PostgreSQL");
+		expect(getLastInjectionSearch()).toMatchObject({ used: "keyword-fallback", timedOut: ["semantic"] });
+		// The qmd process still searching is killed, not left running.
+		expect(semantic.signal?.aborted).toBe(true);
+	});
+
+	test("hybrid runs both and merges them, counting shared hits once", async () => {
+		_setConfigForTest({ search: { injection: { mode: "hybrid" } } });
+		semantic.hits.push({ file: "qmd://pi-memory/MEMORY.md", score: 0.6, snippet: "Database backups run nightly" });
+		const injected = await searchRelevantMemories("backups schedule");
+		expect(injected).toContain("Chose PostgreSQL");
+		expect(injected.split("Database backups run nightly")).toHaveLength(2);
+		expect(getLastInjectionSearch()).toMatchObject({ requested: "hybrid", used: "hybrid", results: 2 });
+		expect(Object.keys(getLastInjectionSearch()!.latencyMs).sort()).toEqual(["keyword", "semantic"]);
+	});
+
+	test("backends without semantic search use keyword without waiting", async () => {
+		_setConfigForTest({ search: { backend: "local", injection: { mode: "hybrid" } } });
+		expect(await searchRelevantMemories("backups schedule")).toContain("Database backups run nightly");
+		expect(getLastInjectionSearch()).toMatchObject({ backend: "local", used: "keyword-fallback" });
+		expect(getLastInjectionSearch()!.latencyMs.semantic).toBeUndefined();
+	});
+
+	test("PI_MEMORY_SEARCH_TELEMETRY appends one JSON line per search", async () => {
+		const file = path.join(tmpDir, "telemetry.jsonl");
+		process.env.PI_MEMORY_SEARCH_TELEMETRY = file;
+		await searchRelevantMemories("backups");
+		await searchRelevantMemories("postgresql");
+		const lines = fs.readFileSync(file, "utf-8").trim().split("\n");
+		expect(lines).toHaveLength(2);
+		expect(JSON.parse(lines[1])).toMatchObject({ requested: "keyword", used: "keyword", results: 1 });
+	});
+
+	test("search.injection.telemetryFile appends there, and PI_MEMORY_SEARCH_TELEMETRY overrides it", async () => {
+		const configured = path.join(tmpDir, "configured.jsonl");
+		const fromEnv = path.join(tmpDir, "env.jsonl");
+		_setConfigForTest({ search: { injection: { telemetryFile: configured } } });
+		await searchRelevantMemories("backups");
+		expect(fs.readFileSync(configured, "utf-8").trim().split("\n")).toHaveLength(1);
+		process.env.PI_MEMORY_SEARCH_TELEMETRY = fromEnv;
+		expect(loadConfig().config.search.injection.telemetryFile).toBe(fromEnv);
+		await searchRelevantMemories("backups");
+		expect(fs.readFileSync(configured, "utf-8").trim().split("\n")).toHaveLength(1);
+		expect(fs.readFileSync(fromEnv, "utf-8").trim().split("\n")).toHaveLength(1);
+	});
+
+	test("PI_MEMORY_INJECTION_MODE overrides the configured mode", () => {
+		process.env.PI_MEMORY_INJECTION_MODE = "hybrid";
+		expect(loadConfig().config.search.injection.mode).toBe("hybrid");
+		process.env.PI_MEMORY_INJECTION_MODE = "bogus";
+		expect(loadConfig().config.search.injection.mode).toBe("keyword");
+	});
+
+	test("fuseSearchResults ranks hits found by both lists first", () => {
+		const a = { file: "a.md", snippet: "A" };
+		const b = { file: "b.md", snippet: "B" };
+		const c = { file: "c.md", snippet: "C" };
+		const fused = fuseSearchResults(
+			[
+				[a, b],
+				[c, { ...b }],
+			],
+			3,
+		);
+		expect(fused.map((r) => r.snippet)).toEqual(["B", "A", "C"]);
+		expect(fuseSearchResults([[a, b], [c]], 1)).toEqual([a]);
+	});
+});
+
+describe("injected search results", () => {
+	const hit = (file: string, score: number, snippet: string, id?: string) => ({ file, score, snippet, id });
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+	});
+	afterEach(cleanupTmpDir);
+
+	test("hits below search.injection.minScore are dropped", async () => {
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "<!-- t1 -->\n#decision Chose PostgreSQL", "utf-8");
+		_setConfigForTest({ search: { backend: "local" } });
+		expect(await searchRelevantMemories("postgresql")).toContain("Chose PostgreSQL");
+		_setConfigForTest({ search: { backend: "local", injection: { minScore: 0.99 } } });
+		expect(await searchRelevantMemories("postgresql")).toBe("");
+		expect(getLastInjectionSearch()).toMatchObject({ results: 0, belowThreshold: 1 });
+	});
+
+	test("hits already shown by another section are skipped", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "daily", `${todayStr()}.md`),
+			"<!-- 2026-01-01 10:00:00 [s1] id:aaaaaa -->\nMigrated billing to PostgreSQL\n\nDeployed   the API",
+			"utf-8",
+		);
+		const context = buildMemoryContext([
+			hit("daily/today.md", 0.9, "Deployed the API"),
+			hit("daily/today.md", 0.8, "<!-- meta -->\nsummary of billing", "aaaaaa"),
+			hit("daily/2026-01-01.md", 0.5, "Chose Fly.io for hosting"),
+		]);
+		const search = context.split("## Relevant memories (auto-retrieved)")[1];
+		expect(search).toContain("Chose Fly.io for hosting");
+		expect(search).not.toContain("Deployed the API");
+		expect(search).not.toContain("summary of billing");
+	});
+
+	test("diversity keeps near-identical hits from one file from crowding out others", () => {
+		const candidates = [
+			hit("daily/2026-01-05.md", 0.9, "Debugged the webhook retry loop in billing"),
+			hit("daily/2026-01-05.md", 0.88, "Debugged the webhook retry loop in billing again"),
+			hit("daily/2026-01-05.md", 0.86, "Webhook retry loop in billing debugged"),
+			hit("MEMORY.md", 0.6, "#decision Webhooks are retried with exponential backoff"),
+		];
+		const picked = selectInjectedResults(candidates, "", 3).map((r) => r.snippet);
+		expect(picked[0]).toBe(candidates[0].snippet);
+		expect(picked).toContain(candidates[3].snippet);
+
+		_setConfigForTest({ search: { injection: { diversity: 0 } } });
+		expect(selectInjectedResults(candidates, "", 3)).toEqual(candidates.slice(0, 3));
+	});
+});
+
+describe("injection trace", () => {
+	let mockPi: ReturnType<typeof createMockPi>;
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		fs.writeFileSync(path.join(tmpDir, "config.json"), JSON.stringify({ search: { backend: "local" } }), "utf-8");
+		fs.writeFileSync(
+			path.join(tmpDir, "MEMORY.md"),
+			"<!-- t1 id:aaaaaa -->\n#decision Chose PostgreSQL for billing",
+			"utf-8",
+		);
+		fs.writeFileSync(
+			path.join(tmpDir, "daily", "2020-01-01.md"),
+			"<!-- t1 id:bbbbbb -->\nPostgreSQL billing replicas lag at night",
+			"utf-8",
+		);
+		// Keeps 2020-01-01 out of the daily window: only search can surface it.
+		fs.writeFileSync(path.join(tmpDir, "daily", "2020-01-02.md"), "Unrelated notes", "utf-8");
+		mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+	});
+	afterEach(() => {
+		delete process.env.PI_MEMORY_TRACE;
+		cleanupTmpDir();
+	});
+
+	const inject = async (prompt: string) => {
+		const ctx = createMockCtx("abcdef1234567890");
+		await mockPi.hooks.session_start({}, { ...ctx, hasUI: false });
+		await mockPi.hooks.before_agent_start({ prompt, systemPrompt: "" }, ctx);
+		return ctx;
+	};
+
+	test("before_agent_start records sections, query, hits and timings", async () => {
+		await inject("postgresql billing");
+		const trace = getLastInjectionTrace()!;
+		expect(trace).toMatchObject({ sessionId: "abcdef12", prompt: "postgresql billing", query: "postgresql billing" });
+		expect(trace.search).toMatchObject({ backend: "local", used: "keyword" });
+		expect(trace.hits).toContainEqual(expect.objectContaining({ file: "MEMORY.md", status: "duplicate" }));
+		expect(trace.hits).toContainEqual(expect.objectContaining({ file: "daily/2020-01-01.md", status: "injected" }));
+		expect(trace.sections.map((s) => s.label)).toEqual([
+			"Relevant memories (auto-retrieved)",
+			"MEMORY.md (long-term)",
+			expect.stringMatching(/^Daily log: 2020-01-02 /),
+		]);
+		expect(trace.sections.every((s) => s.tokens > 0 && s.truncated === null)).toBe(true);
+		expect(trace.tokens).toBeLessThanOrEqual(trace.budgetTokens);
+		expect(trace.timingsMs.total).toBeGreaterThanOrEqual(trace.timingsMs.search);
+	});
+
+	test("records truncation notes and injections that found nothing", async () => {
+		const entries = Array.from({ length: 40 }, (_, i) => `<!-- t${i} -->\nNote ${i}: ${"filler ".repeat(40)}`);
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), entries.join("\n\n"), "utf-8");
+		await inject("");
+		const trace = getLastInjectionTrace()!;
+		expect(trace.search).toBeNull();
+		expect(trace.sections[0].truncated).toMatch(/^\[omitted \d+ of 40 entries/);
+
+		cleanupTmpDir();
+		setupTmpDir();
+		await inject("anything");
+		expect(getLastInjectionTrace()).toMatchObject({ sections: [], tokens: 0, hits: [] });
+	});
+
+	test("PI_MEMORY_TRACE appends one JSON line per injection", async () => {
+		const file = path.join(tmpDir, "trace.jsonl");
+		process.env.PI_MEMORY_TRACE = file;
+		await inject("postgresql");
+		await inject("billing");
+		const lines = fs
+			.readFileSync(file, "utf-8")
+			.trim()
+			.split("\n")
+			.map((l) => JSON.parse(l));
+		expect(lines.map((l) => l.query)).toEqual(["postgresql", "billing"]);
+	});
+
+	test("trace.file appends there, and PI_MEMORY_TRACE overrides it", async () => {
+		const configured = path.join(tmpDir, "configured.jsonl");
+		const fromEnv = path.join(tmpDir, "env.jsonl");
+		fs.writeFileSync(path.join(tmpDir, "config.json"), JSON.stringify({ trace: { file: configured } }));
+		await inject("postgresql");
+		expect(fs.readFileSync(configured, "utf-8").trim().split("\n")).toHaveLength(1);
+		process.env.PI_MEMORY_TRACE = fromEnv;
+		await inject("billing");
+		expect(fs.readFileSync(configured, "utf-8").trim().split("\n")).toHaveLength(1);
+		expect(JSON.parse(fs.readFileSync(fromEnv, "utf-8")).query).toBe("billing");
+	});
+
+	test("/memory-explain shows the last trace", async () => {
+		const ctx = await inject("postgresql billing");
+		await mockPi.commands["memory-explain"].handler("", ctx);
+		const report = formatInjectionTrace(getLastInjectionTrace()!);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(report, "info");
+		expect(report).toContain('Query: "postgresql billing"');
+		expect(report).toContain("Search: keyword via local");
+		expect(report).toMatch(/- [\d.]+ daily\/2020-01-01\.md id:bbbbbb: injected/);
+		expect(report).toContain("- MEMORY.md (long-term): ~");
+
+		await mockPi.commands["memory-explain"].handler("json", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(JSON.stringify(getLastInjectionTrace(), null, 2), "info");
+	});
+});
+
+describe("injection query", () => {
+	const message = (role: "user" | "assistant", text: string) => ({
+		type: "message",
+		message: { role, content: [{ type: "text", text }], timestamp: Date.now() },
+	});
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+	});
+	afterEach(cleanupTmpDir);
+
+	test("drops stopwords and conversational filler from the prompt", () => {
+		expect(buildInjectionQuery("ok do that for the other service too")).toBe("service");
+		expect(buildInjectionQuery("Which PostgreSQL version do we run?")).toBe("postgresql version run");
+	});
+
+	test("adds the salient terms of recent messages after the prompt's own", () => {
+		_setConfigForTest({ search: { injection: { query: { maxTerms: 6 } } } });
+		const query = buildInjectionQuery("ok do that for the other service too", [
+			"Let's talk about the weather",
+			"We moved the billing service to PostgreSQL",
+			"Done: billing now reads from PostgreSQL replicas",
+		]);
+		const terms = query.split(" ");
+		expect(terms[0]).toBe("service");
+		expect(terms.slice(1, 3).sort()).toEqual(["billing", "postgresql"]);
+		// Older, one-off terms lose out to recent and recurring ones.
+		expect(terms).toContain("replicas");
+		expect(terms).not.toContain("weather");
+	});
+
+	test("turns and maxTerms bound how much context is used", () => {
+		const messages = ["alpha bravo charlie", "delta echo foxtrot"];
+		_setConfigForTest({ search: { injection: { query: { turns: 1 } } } });
+		expect(buildInjectionQuery("status", messages)).toBe("status delta echo foxtrot");
+		_setConfigForTest({ search: { injection: { query: { maxTerms: 1 } } } });
+		expect(buildInjectionQuery("status", messages).split(" ")).toHaveLength(2);
+		_setConfigForTest({ search: { injection: { query: { turns: 0 } } } });
+		expect(buildInjectionQuery("status", messages)).toBe("status");
+	});
+
+	test("expands #tags and [[links]] mentioned in the conversation", () => {
+		_setConfigForTest({ search: { injection: { query: { maxTerms: 0 } } } });
+		const messages = ["See [[auth-strategy]] and the #decision about it"];
+		expect(buildInjectionQuery("rotate tokens", messages)).toBe("rotate tokens decision auth strategy");
+		_setConfigForTest({ search: { injection: { query: { maxTerms: 0, expandTags: false } } } });
+		expect(buildInjectionQuery("rotate tokens", messages)).toBe("rotate tokens");
+	});
+
+	test("before_agent_start searches with terms from the session branch", async () => {
+		fs.writeFileSync(path.join(tmpDir, "config.json"), JSON.stringify({ search: { backend: "local" } }), "utf-8");
+		// An old log outside the daily window: only search can surface it.
+		fs.writeFileSync(
+			path.join(tmpDir, "daily", "2020-01-01.md"),
+			"<!-- t1 -->\nThe invoicing worker retries webhooks three times",
+			"utf-8",
+		);
+		fs.writeFileSync(path.join(tmpDir, "daily", "2020-01-02.md"), "Unrelated notes", "utf-8");
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		const ctx = {
+			...createShutdownCtx({
+				branch: [
+					message("user", "Add retries to the invoicing worker webhooks"),
+					message("assistant", "Done, invoicing webhooks now retry."),
+				],
+			}),
+			hasUI: false,
+		};
+		await mockPi.hooks.session_start({}, ctx);
+		const result: any = await mockPi.hooks.before_agent_start(
+			{ prompt: "ok do the same for the other one", systemPrompt: "" },
+			ctx,
+		);
+		expect(getLastInjectionSearch()?.query).toContain("invoicing");
+		expect(result.systemPrompt).toContain("## Relevant memories (auto-retrieved)");
+		expect(result.systemPrompt).toContain("retries webhooks three times");
+	});
+});
+
+// ==========================================================================
+// 9. Lifecycle hooks
+// ==========================================================================
+
+describe("lifecycle hooks", () => {
+	let hooks: Record<string, (...args: unknown[]) => unknown>;
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		_setQmdAvailable(false);
+		const mockPi = createMockPi();
+		hooks = mockPi.hooks;
+		registerExtension(mockPi.pi as any);
+	});
+
+	afterEach(cleanupTmpDir);
+
+	test("registers all expected hooks", () => {
+		expect(hooks.session_start).toBeDefined();
+		expect(hooks.session_shutdown).toBeDefined();
+		expect(hooks.before_agent_start).toBeDefined();
+		expect(hooks.session_before_compact).toBeDefined();
+	});
+
+	// -- before_agent_start --
+
+	test("before_agent_start returns undefined when no memory files", async () => {
+		const event = { systemPrompt: "base prompt" };
+		const result = await hooks.before_agent_start(event, {});
+		expect(result).toBeUndefined();
+	});
+
+	test("before_agent_start injects memory into system prompt", async () => {
 		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "Remember this", "utf-8");
 		const event = { systemPrompt: "base prompt" };
 		const result = await hooks.before_agent_start(event, {});
@@ -1057,6 +2616,19 @@ describe("lifecycle hooks", () => {
 		expect(content).toContain("Follow up");
 	});
 
+	test("session_before_compact hands off the open items of every injected list, labelled by list", async () => {
+		fs.writeFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "# Scratchpad\n\n- [ ] Follow up", "utf-8");
+		fs.mkdirSync(path.join(tmpDir, "scratchpads"));
+		fs.writeFileSync(path.join(tmpDir, "scratchpads", "release.md"), "- [ ] Tag v2\n- [x] Changelog", "utf-8");
+		fs.writeFileSync(path.join(tmpDir, "scratchpads", "ideas.md"), "- [ ] Dark mode", "utf-8");
+		_setConfigForTest({ scratchpad: { inject: ["default", "release"] } });
+		await hooks.session_before_compact({}, createMockCtx());
+		const content = fs.readFileSync(dailyPath(todayStr()), "utf-8");
+		expect(content).toEndWith(
+			"**Open scratchpad items:**\n- [ ] Follow up (list: default)\n- [ ] Tag v2 (list: release)",
+		);
+	});
+
 	test("session_before_compact does not notify when no memory", async () => {
 		const ctx = createMockCtx();
 		await hooks.session_before_compact({}, ctx);
@@ -1065,16 +2637,1429 @@ describe("lifecycle hooks", () => {
 });
 
 // ==========================================================================
-// 10. Extension registration
+// 10. Project scope
+// ==========================================================================
+
+describe("project scope", () => {
+	let tools: Record<string, any>;
+	let hooks: Record<string, (...args: unknown[]) => unknown>;
+	let projectRoot: string;
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		_setQmdAvailable(false);
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-project-"));
+		const mockPi = createMockPi();
+		tools = mockPi.tools;
+		hooks = mockPi.hooks;
+		registerExtension(mockPi.pi as any);
+	});
+
+	afterEach(() => {
+		cleanupTmpDir();
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	test("detects git root from a nested directory", () => {
+		fs.mkdirSync(path.join(projectRoot, ".git"));
+		const nested = path.join(projectRoot, "src", "lib");
+		fs.mkdirSync(nested, { recursive: true });
+		expect(detectProjectRoot(nested)).toBe(projectRoot);
+	});
+
+	test(".pi-memory marker wins over an outer git root", () => {
+		fs.mkdirSync(path.join(projectRoot, ".git"));
+		const pkg = path.join(projectRoot, "packages", "api");
+		fs.mkdirSync(path.join(pkg, ".pi-memory"), { recursive: true });
+		expect(detectProjectRoot(path.join(pkg))).toBe(pkg);
+	});
+
+	test("no project outside git repos and marker dirs", () => {
+		expect(activateProjectScope(projectRoot)).toBeNull();
+		expect(getActiveProject()).toBeNull();
+	});
+
+	test("never treats the global memory dir as a project", () => {
+		fs.mkdirSync(path.join(tmpDir, ".git"));
+		expect(activateProjectScope(tmpDir)).toBeNull();
+	});
+
+	test("session_start activates the project scope from ctx.cwd", async () => {
+		fs.mkdirSync(path.join(projectRoot, ".git"));
+		_setExecFileForTest(((...args: any[]) => {
+			const callback = args[args.length - 1] as (err: Error | null, stdout: string, stderr: string) => void;
+			callback(new Error("qmd not found"), "", "");
+		}) as any);
+		try {
+			await hooks.session_start({}, { ...createMockCtx(), hasUI: false, cwd: projectRoot });
+			expect(getActiveProject()?.root).toBe(projectRoot);
+		} finally {
+			_resetExecFileForTest();
+		}
+	});
+
+	test("a project memory dir created by pi-memory is git-ignored, a marker dir made by the user is not", async () => {
+		execFileSync("git", ["init", "-q"], { cwd: projectRoot });
+		_setProjectRoot(projectRoot);
+		ensureDirs("project");
+		fs.writeFileSync(path.join(projectRoot, ".pi-memory", "MEMORY.md"), "Project note\n");
+		const gitignore = path.join(projectRoot, ".pi-memory", ".gitignore");
+		expect(fs.readFileSync(gitignore, "utf-8")).toEndWith("\n*\n");
+		const status = execFileSync("git", ["status", "--porcelain", "--untracked-files=all"], {
+			cwd: projectRoot,
+			encoding: "utf-8",
+		});
+		expect(status).toBe("");
+
+		fs.rmSync(path.join(projectRoot, ".pi-memory"), { recursive: true });
+		fs.mkdirSync(path.join(projectRoot, ".pi-memory"));
+		ensureDirs("project");
+		expect(fs.existsSync(gitignore)).toBe(false);
+	});
+
+	test("memory_write with scope project writes under <root>/.pi-memory", async () => {
+		_setProjectRoot(projectRoot);
+		const result = await tools.memory_write.execute(
+			"c1",
+			{ target: "long_term", content: "Uses pnpm workspaces", scope: "project" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		const projectFile = path.join(projectRoot, ".pi-memory", "MEMORY.md");
+		expect(fs.readFileSync(projectFile, "utf-8")).toContain("Uses pnpm workspaces");
+		expect(fs.existsSync(path.join(tmpDir, "MEMORY.md"))).toBe(false);
+		expect(result.details.scope).toBe("project");
+		expect(result.content[0].text).toContain("project MEMORY.md");
+	});
+
+	test("memory_write to project daily log", async () => {
+		_setProjectRoot(projectRoot);
+		await tools.memory_write.execute(
+			"c1",
+			{ target: "daily", content: "Refactored router", scope: "project" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(fs.readFileSync(dailyPath(todayStr(), "project"), "utf-8")).toContain("Refactored router");
+		expect(dailyPath(todayStr(), "project")).toStartWith(path.join(projectRoot, ".pi-memory", "daily"));
+	});
+
+	test("project scope without an active project is an error", async () => {
+		const result = await tools.memory_write.execute(
+			"c1",
+			{ target: "long_term", content: "x", scope: "project" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("No project scope");
+		expect(() => dailyPath(todayStr(), "project")).toThrow("No project scope");
+	});
+
+	test("memory_read and scratchpad honor scope", async () => {
+		_setProjectRoot(projectRoot);
+		const ctx = createMockCtx();
+		await tools.scratchpad.execute("c1", { action: "add", text: "Project todo", scope: "project" }, null, null, ctx);
+		await tools.scratchpad.execute("c2", { action: "add", text: "Global todo" }, null, null, ctx);
+
+		const projectRead = await tools.memory_read.execute(
+			"c3",
+			{ target: "scratchpad", scope: "project" },
+			null,
+			null,
+			{},
+		);
+		expect(projectRead.content[0].text).toContain("Project todo");
+		expect(projectRead.content[0].text).not.toContain("Global todo");
+
+		const globalRead = await tools.memory_read.execute("c4", { target: "scratchpad" }, null, null, {});
+		expect(globalRead.content[0].text).toContain("Global todo");
+		expect(globalRead.content[0].text).not.toContain("Project todo");
+	});
+
+	test("buildMemoryContext merges both scopes under separate headings", () => {
+		_setProjectRoot(projectRoot);
+		ensureDirs("project");
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "Global fact", "utf-8");
+		fs.writeFileSync(path.join(projectRoot, ".pi-memory", "MEMORY.md"), "Project fact", "utf-8");
+
+		const ctx = buildMemoryContext();
+		const projectName = path.basename(projectRoot);
+		const projectPos = ctx.indexOf(`## MEMORY.md (long-term) [project: ${projectName}]`);
+		const globalPos = ctx.indexOf("## MEMORY.md (long-term)\n");
+		expect(projectPos).toBeGreaterThanOrEqual(0);
+		expect(globalPos).toBeGreaterThan(projectPos);
+		expect(ctx).toContain("Project fact");
+		expect(ctx).toContain("Global fact");
+	});
+
+	test("handoff goes to the project daily log when a project is active", async () => {
+		_setProjectRoot(projectRoot);
+		fs.writeFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "# Scratchpad\n\n- [ ] Global follow-up\n", "utf-8");
+		await hooks.session_before_compact({}, createMockCtx());
+		const content = fs.readFileSync(dailyPath(todayStr(), "project"), "utf-8");
+		expect(content).toContain("Session Handoff");
+		expect(content).toContain("Global follow-up");
+		expect(fs.existsSync(dailyPath(todayStr()))).toBe(false);
+	});
+
+	test("each project gets its own qmd collection", () => {
+		expect(qmdCollectionName("global")).toBe("pi-memory");
+		expect(qmdCollectionName("project")).toBeNull();
+		_setProjectRoot(projectRoot);
+		expect(qmdCollectionName("project")).toStartWith("pi-memory-");
+		expect(qmdCollectionName("project")).not.toBe("pi-memory");
+	});
+});
+
+// ==========================================================================
+// 11. Configuration
+// ==========================================================================
+
+describe("configuration", () => {
+	let projectRoot: string;
+	const originalUpdateEnv = process.env.PI_MEMORY_QMD_UPDATE;
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-project-"));
+		delete process.env.PI_MEMORY_QMD_UPDATE;
+	});
+
+	afterEach(() => {
+		cleanupTmpDir();
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+		if (originalUpdateEnv === undefined) delete process.env.PI_MEMORY_QMD_UPDATE;
+		else process.env.PI_MEMORY_QMD_UPDATE = originalUpdateEnv;
+	});
+
+	function writeConfig(dir: string, value: unknown) {
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(
+			path.join(dir, "config.json"),
+			typeof value === "string" ? value : JSON.stringify(value),
+			"utf-8",
+		);
+	}
+
+	test("rejects an unknown time zone", () => {
+		writeConfig(tmpDir, { time: { timezone: "Mars/Olympus_Mons", rolloverHour: 4 } });
+		const { config, errors } = loadConfig();
+		expect(errors[0].messages[0]).toContain('unknown IANA time zone "Mars/Olympus_Mons"');
+		expect(config.time).toEqual({ timezone: "", rolloverHour: 0 });
+	});
+
+	test("uses defaults when no config file exists", () => {
+		const { config, errors } = loadConfig();
+		expect(errors).toHaveLength(0);
+		expect(config.context.maxChars).toBeUndefined();
+		expect(config.context.tokens.fallback).toBe(4_000);
+		expect(config.search.timeoutMs).toBe(3_000);
+		expect(config.qmd.updateDebounceMs).toBe(500);
+		expect(config.qmd.collection).toBe("pi-memory");
+	});
+
+	test("global config overrides individual defaults", () => {
+		writeConfig(tmpDir, { context: { daily: { maxChars: 500 } }, qmd: { collection: "team-memory" } });
+		const { config } = loadConfig();
+		expect(config.context.daily.maxChars).toBe(500);
+		expect(config.context.daily.maxLines).toBe(120);
+		expect(config.qmd.collection).toBe("team-memory");
+		expect(qmdInstallInstructions()).toContain("--name team-memory");
+	});
+
+	test("project config overrides global config", () => {
+		writeConfig(tmpDir, { search: { timeoutMs: 1_000 }, preview: { maxLines: 10 } });
+		writeConfig(path.join(projectRoot, ".pi-memory"), { search: { timeoutMs: 250 } });
+		_setProjectRoot(projectRoot);
+		const { config } = loadConfig();
+		expect(config.search.timeoutMs).toBe(250);
+		expect(config.preview.maxLines).toBe(10);
+	});
+
+	test("PI_MEMORY_QMD_UPDATE takes precedence over config", () => {
+		writeConfig(tmpDir, { qmd: { update: "off" } });
+		process.env.PI_MEMORY_QMD_UPDATE = "manual";
+		expect(loadConfig().config.qmd.update).toBe("manual");
+	});
+
+	test("invalid layer is skipped and reported, valid layers still apply", () => {
+		writeConfig(tmpDir, { context: { maxChars: "lots" }, qmd: { update: "sometimes" }, typo: true });
+		writeConfig(path.join(projectRoot, ".pi-memory"), { search: { timeoutMs: 100 } });
+		_setProjectRoot(projectRoot);
+		const { config, errors } = loadConfig();
+		expect(errors).toHaveLength(1);
+		expect(errors[0].file).toBe(path.join(tmpDir, "config.json"));
+		const messages = errors[0].messages.join("\n");
+		expect(messages).toContain("/context/maxChars");
+		expect(messages).toContain("expected one of background, manual, off");
+		expect(messages).toContain("/typo");
+		expect(config.context.maxChars).toBeUndefined();
+		expect(config.search.timeoutMs).toBe(100);
+	});
+
+	test("search.backend only accepts known backends", () => {
+		writeConfig(tmpDir, { search: { backend: "elastic" } });
+		const { config, errors } = loadConfig();
+		expect(errors[0].messages.join("\n")).toContain("expected one of qmd, local");
+		expect(config.search.backend).toBe("qmd");
+	});
+
+	test("malformed JSON is reported instead of throwing", () => {
+		writeConfig(tmpDir, "{ not json");
+		const { errors } = loadConfig();
+		expect(errors).toHaveLength(1);
+		expect(errors[0].messages[0]).toContain("invalid JSON");
+	});
+
+	test("session_start notifies about invalid config", async () => {
+		writeConfig(tmpDir, { context: { maxChars: -1 } });
+		_setExecFileForTest(((...args: any[]) => {
+			const callback = args[args.length - 1] as (err: Error | null, stdout: string, stderr: string) => void;
+			callback(new Error("qmd not found"), "", "");
+		}) as any);
+		const mockPi = createMockPi();
+		registerExtension(mockPi.pi as any);
+		const ctx = { ...createMockCtx(), hasUI: true };
+		(ctx.ui as any).onTerminalInput = () => () => {};
+		try {
+			await mockPi.hooks.session_start({}, ctx);
+			const messages = (ctx.ui.notify as any).mock.calls.map((call: any[]) => call[0]).join("\n");
+			expect(messages).toContain("invalid config");
+			expect(messages).toContain("/context/maxChars");
+			expect(getConfig().context.maxChars).toBeUndefined();
+		} finally {
+			_resetExecFileForTest();
+		}
+	});
+
+	test("context budgets come from config", () => {
+		_setConfigForTest({ context: { longTerm: { maxChars: 100 } } });
+		fs.writeFileSync(path.join(tmpDir, "MEMORY.md"), "L".repeat(1_000), "utf-8");
+		const ctx = buildMemoryContext();
+		expect(ctx).toContain("[truncated: showing");
+		expect(ctx.length).toBeLessThan(400);
+	});
+});
+
+// ==========================================================================
+// 12. Memory entries
+// ==========================================================================
+
+describe("memory entries", () => {
+	test("newEntryId returns short IDs that avoid taken ones", () => {
+		const id = newEntryId();
+		expect(id).toMatch(/^[0-9a-f]{6}$/);
+		const taken = new Set(Array.from({ length: 50 }, () => newEntryId()));
+		expect(taken.has(newEntryId(taken))).toBe(false);
+	});
+
+	test("formatEntryMeta and parseEntryMeta round-trip", () => {
+		const meta = formatEntryMeta("2026-03-01 09:15:00", "abcd1234", "a1b2c3");
+		expect(meta).toBe("<!-- 2026-03-01 09:15:00 [abcd1234] id:a1b2c3 -->");
+		expect(parseEntryMeta(meta)).toEqual({ id: "a1b2c3", timestamp: "2026-03-01 09:15:00", session: "abcd1234" });
+		expect(parseEntryMeta(formatEntryMeta("2026-03-01 09:15:00", "s", "ffffff", "HANDOFF "))?.id).toBe("ffffff");
+	});
+
+	test("parseEntryMeta accepts legacy comments without an ID", () => {
+		expect(parseEntryMeta("<!-- last updated: 2026-01-01 10:00:00 [s1] -->")).toEqual({
+			id: null,
+			timestamp: "2026-01-01 10:00:00",
+			session: "s1",
+		});
+		expect(parseEntryMeta("plain text")).toBeNull();
+	});
+
+	test("parseMemoryEntries splits on metadata comments and extracts tags and links", () => {
+		const content = [
+			"# Memory",
+			"",
+			"<!-- 2026-03-01 09:00:00 [s1] id:aaaaaa -->",
+			"#decision Use Postgres, see [[db-choice]] #decision",
+			"",
+			"<!-- 2026-03-02 10:00:00 [s2] -->",
+			"## Heading is not a tag",
+			"Legacy entry",
+		].join("\n");
+		const entries: MemoryEntry[] = parseMemoryEntries(content);
+		expect(entries).toHaveLength(3);
+		expect(entries[0]).toMatchObject({ id: null, meta: "", body: "# Memory", startLine: 0, endLine: 2 });
+		expect(entries[1]).toMatchObject({
+			id: "aaaaaa",
+			timestamp: "2026-03-01 09:00:00",
+			session: "s1",
+			tags: ["decision"],
+			links: ["db-choice"],
+			startLine: 2,
+			endLine: 5,
+		});
+		expect(entries[2]).toMatchObject({
+			id: null,
+			session: "s2",
+			tags: [],
+			body: "## Heading is not a tag\nLegacy entry",
+		});
+	});
+
+	describe("written entries", () => {
+		let tools: Record<string, any>;
+		let hooks: Record<string, (...args: unknown[]) => unknown>;
+
+		beforeEach(() => {
+			setupTmpDir();
+			ensureDirs();
+			const mockPi = createMockPi();
+			tools = mockPi.tools;
+			hooks = mockPi.hooks;
+			registerExtension(mockPi.pi as any);
+		});
+		afterEach(cleanupTmpDir);
+
+		test("memory_write gives every entry a distinct ID", async () => {
+			const ctx = createMockCtx();
+			const first = await tools.memory_write.execute(
+				"c1",
+				{ target: "long_term", content: "Fact one" },
+				null,
+				null,
+				ctx,
+			);
+			const second = await tools.memory_write.execute(
+				"c2",
+				{ target: "long_term", content: "Fact two" },
+				null,
+				null,
+				ctx,
+			);
+			const daily = await tools.memory_write.execute(
+				"c3",
+				{ target: "daily", content: "Log line" },
+				null,
+				null,
+				ctx,
+			);
+
+			expect(first.details.id).not.toBe(second.details.id);
+			expect(first.content[0].text).toContain(`(entry ${first.details.id})`);
+			const entries = parseMemoryEntries(fs.readFileSync(path.join(tmpDir, "MEMORY.md"), "utf-8"));
+			expect(entries.map((e) => e.id)).toEqual([first.details.id, second.details.id]);
+			expect(entries[1]).toMatchObject({ session: "abcdef12", body: "Fact two" });
+			expect(entryIdsIn(fs.readFileSync(dailyPath(todayStr()), "utf-8")).has(daily.details.id)).toBe(true);
+		});
+
+		test("overwrite stamps the new content with an ID", async () => {
+			const result = await tools.memory_write.execute(
+				"c1",
+				{ target: "long_term", content: "Fresh", mode: "overwrite" },
+				null,
+				null,
+				createMockCtx(),
+			);
+			const content = fs.readFileSync(path.join(tmpDir, "MEMORY.md"), "utf-8");
+			expect(content).toStartWith("<!-- last updated: ");
+			expect(parseMemoryEntries(content)[0].id).toBe(result.details.id);
+		});
+
+		test("handoff entries carry an ID", async () => {
+			fs.writeFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "# Scratchpad\n\n- [ ] Open item\n", "utf-8");
+			await hooks.session_before_compact({}, createMockCtx());
+			const entries = parseMemoryEntries(fs.readFileSync(dailyPath(todayStr()), "utf-8"));
+			expect(entries[0].meta).toStartWith("<!-- HANDOFF ");
+			expect(entries[0].id).toMatch(/^[0-9a-f]{6}$/);
+		});
+
+		test("memory_read lists entry IDs", async () => {
+			const written = await tools.memory_write.execute(
+				"c1",
+				{ target: "long_term", content: "Fact" },
+				null,
+				null,
+				createMockCtx(),
+			);
+			const result = await tools.memory_read.execute("c2", { target: "long_term" }, null, null, {});
+			expect(result.content[0].text).toContain(`Entry IDs: ${written.details.id}`);
+			expect(result.details.entryIds).toEqual([written.details.id]);
+		});
+
+		test("search results show the entry ID", async () => {
+			const written = await tools.memory_write.execute(
+				"c1",
+				{ target: "long_term", content: "We deploy with Fly.io" },
+				null,
+				null,
+				createMockCtx(),
+			);
+			expect(runLocalSearch("deploy", 5)[0].id).toBe(written.details.id);
+			const result = await tools.memory_search.execute("c2", { query: "deploy" }, null, null, {});
+			expect(result.content[0].text).toContain(`**Entry:** ${written.details.id}`);
+		});
+
+		test("qmd ensureIndex asks qmd once per scope and skips missing project dirs", async () => {
+			const fake = createFakeQmd();
+			_setExecFileForTest(fake.exec);
+			try {
+				await qmdSearchBackend.ensureIndex("global");
+				await qmdSearchBackend.ensureIndex("global");
+				await qmdSearchBackend.search("keyword", "deploy", { limit: 5, scope: "global" });
+				expect(fake.calls.filter(([cmd]) => cmd === "collection")).toEqual([
+					["collection", "list", "--json"],
+					["collection", "add", tmpDir, "--name", "pi-memory"],
+				]);
+
+				const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-proj-"));
+				try {
+					_setProjectRoot(projectRoot);
+					fake.calls.length = 0;
+					expect(await qmdSearchBackend.ensureIndex("project")).toBe(false);
+					expect(fake.calls).toEqual([]);
+				} finally {
+					fs.rmSync(projectRoot, { recursive: true, force: true });
+				}
+			} finally {
+				_resetExecFileForTest();
+			}
+		});
+
+		test("qmd hits are mapped back to entry IDs", async () => {
+			const fake = createFakeQmd();
+			_setExecFileForTest(fake.exec);
+			try {
+				fs.writeFileSync(
+					path.join(tmpDir, "MEMORY.md"),
+					"<!-- t1 [s] id:aaaaaa -->\nUses Postgres 16\n\n<!-- t2 [s] id:bbbbbb -->\nDeploys with Fly.io",
+					"utf-8",
+				);
+				await qmdSearchBackend.detect();
+				await qmdSearchBackend.ensureIndex("global");
+				const { results } = await qmdSearchBackend.search("keyword", "fly.io", { limit: 5, scope: "global" });
+				// The fake returns the whole file, which spans two entries — no single ID applies.
+				expect(results[0].id).toBeUndefined();
+
+				fake.snippets = ["@@ -4,1 @@\nDeploys with Fly.io"];
+				const mapped = await qmdSearchBackend.search("keyword", "fly.io", { limit: 5, scope: "global" });
+				expect(mapped.results[0].id).toBe("bbbbbb");
+			} finally {
+				_resetExecFileForTest();
+			}
+		});
+	});
+});
+
+// ==========================================================================
+// 13. Tools: memory_edit / memory_delete
+// ==========================================================================
+
+describe("replaceMemoryEntry", () => {
+	const content =
+		"<!-- t1 [s] id:aaaaaa -->\nFirst\n\n<!-- t2 [s] id:bbbbbb -->\nSecond\n\n<!-- t3 [s] id:cccccc -->\nThird\n";
+
+	test("replaces an entry and keeps the separator", () => {
+		const [, second] = parseMemoryEntries(content);
+		expect(replaceMemoryEntry(content, second, "<!-- t2 [s] id:bbbbbb -->\nSecond, fixed")).toBe(
+			"<!-- t1 [s] id:aaaaaa -->\nFirst\n\n<!-- t2 [s] id:bbbbbb -->\nSecond, fixed\n\n<!-- t3 [s] id:cccccc -->\nThird\n",
+		);
+	});
+
+	test("removes middle and last entries cleanly", () => {
+		const [, second, third] = parseMemoryEntries(content);
+		expect(replaceMemoryEntry(content, second, null)).toBe(
+			"<!-- t1 [s] id:aaaaaa -->\nFirst\n\n<!-- t3 [s] id:cccccc -->\nThird\n",
+		);
+		expect(replaceMemoryEntry(content, third, null)).toBe(
+			"<!-- t1 [s] id:aaaaaa -->\nFirst\n\n<!-- t2 [s] id:bbbbbb -->\nSecond\n",
+		);
+	});
+
+	test("formatLineDiff marks changed lines only", () => {
+		expect(formatLineDiff("a\nb\nc", "a\nB\nc")).toBe("  a\n- b\n+ B\n  c");
+		expect(formatLineDiff("gone", "")).toBe("- gone");
+	});
+});
+
+describe("memory_edit and memory_delete tools", () => {
+	let tools: Record<string, any>;
+	const memoryFile = () => path.join(tmpDir, "MEMORY.md");
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		const mockPi = createMockPi();
+		tools = mockPi.tools;
+		registerExtension(mockPi.pi as any);
+		fs.writeFileSync(
+			memoryFile(),
+			[
+				"<!-- 2026-01-01 10:00:00 [s1] id:aaaaaa -->",
+				"#decision Database: MySQL",
+				"",
+				"<!-- 2026-01-02 10:00:00 [s1] id:bbbbbb -->",
+				"#preference Editor: Neovim",
+				"",
+				"<!-- 2026-01-03 10:00:00 [s2] -->",
+				"#preference Shell: fish",
+			].join("\n"),
+			"utf-8",
+		);
+		fs.writeFileSync(
+			path.join(tmpDir, "daily", "2026-01-05.md"),
+			"<!-- 2026-01-05 09:00:00 [s3] id:dddddd -->\nTried MySQL 8",
+			"utf-8",
+		);
+	});
+	afterEach(cleanupTmpDir);
+
+	test("edits an entry by id and returns a diff preview", async () => {
+		const result = await tools.memory_edit.execute(
+			"c1",
+			{ id: "aaaaaa", content: "#decision Database: PostgreSQL" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBeUndefined();
+		expect(result.content[0].text).toContain("Edited entry aaaaaa in MEMORY.md");
+		expect(result.content[0].text).toContain("- #decision Database: MySQL");
+		expect(result.content[0].text).toContain("+ #decision Database: PostgreSQL");
+		expect(result.details.diffPreview.totalLines).toBe(2);
+
+		const entries = parseMemoryEntries(fs.readFileSync(memoryFile(), "utf-8"));
+		expect(entries).toHaveLength(3);
+		expect(entries[0]).toMatchObject({
+			id: "aaaaaa",
+			timestamp: "2026-01-01 10:00:00",
+			body: "#decision Database: PostgreSQL",
+		});
+		expect(entries[1].body).toBe("#preference Editor: Neovim");
+	});
+
+	test("edits by unique text and assigns an ID to legacy entries", async () => {
+		const result = await tools.memory_edit.execute(
+			"c1",
+			{ match: "Shell: fish", content: "#preference Shell: zsh" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBeUndefined();
+		const entry = parseMemoryEntries(fs.readFileSync(memoryFile(), "utf-8"))[2];
+		expect(entry.id).toBe(result.details.id);
+		expect(entry.meta).toBe(`<!-- 2026-01-03 10:00:00 [s2] id:${result.details.id} -->`);
+		expect(entry.body).toBe("#preference Shell: zsh");
+	});
+
+	test("refuses ambiguous matches and lists candidates", async () => {
+		const before = fs.readFileSync(memoryFile(), "utf-8");
+		const result = await tools.memory_edit.execute(
+			"c1",
+			{ match: "MySQL", content: "x" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("refusing to guess");
+		expect(result.details.candidates.map((c: any) => c.id)).toEqual(["aaaaaa", "dddddd"]);
+		expect(result.details.candidates[1].file).toBe("daily/2026-01-05.md");
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toBe(before);
+	});
+
+	test("target narrows the search to one file", async () => {
+		const result = await tools.memory_delete.execute(
+			"c1",
+			{ match: "MySQL", target: "daily", date: "2026-01-05" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBeUndefined();
+		expect(result.content[0].text).toContain("Deleted entry dddddd from daily/2026-01-05.md");
+		expect(fs.readFileSync(path.join(tmpDir, "daily", "2026-01-05.md"), "utf-8")).toBe("");
+	});
+
+	test("deletes an entry by id", async () => {
+		const result = await tools.memory_delete.execute("c1", { id: "bbbbbb" }, null, null, createMockCtx());
+		expect(result.content[0].text).toContain("- #preference Editor: Neovim");
+		const content = fs.readFileSync(memoryFile(), "utf-8");
+		expect(content).not.toContain("Neovim");
+		expect(parseMemoryEntries(content).map((e) => e.id)).toEqual(["aaaaaa", null]);
+	});
+
+	test("reports missing entries and missing selectors", async () => {
+		const missing = await tools.memory_delete.execute("c1", { id: "zzzzzz" }, null, null, createMockCtx());
+		expect(missing.isError).toBe(true);
+		expect(missing.content[0].text).toContain("No entry with id zzzzzz in MEMORY.md or daily logs");
+		const noSelector = await tools.memory_delete.execute("c2", {}, null, null, createMockCtx());
+		expect(noSelector.isError).toBe(true);
+	});
+
+	test("project scope requires an active project", async () => {
+		const result = await tools.memory_edit.execute(
+			"c1",
+			{ id: "aaaaaa", content: "x", scope: "project" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("No project scope");
+	});
+});
+
+describe("pinned memories", () => {
+	let tools: Record<string, any>;
+	let commands: Record<string, any>;
+	const memoryFile = () => path.join(tmpDir, "MEMORY.md");
+	const filler = (i: number) =>
+		`<!-- 2026-01-0${1 + (i % 9)} 10:00:00 [s1] id:f${String(i).padStart(5, "0")} -->\nFiller ${i} ${"text ".repeat(80)}`;
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		const mockPi = createMockPi();
+		tools = mockPi.tools;
+		commands = mockPi.commands;
+		registerExtension(mockPi.pi as any);
+		fs.writeFileSync(
+			memoryFile(),
+			[
+				"<!-- 2026-01-01 10:00:00 [s1] id:aaaaaa -->",
+				"Deploy with `make ship ENV=prod`",
+				"Run it from the repo root after tagging. ".repeat(12),
+				"",
+				...Array.from({ length: 40 }, (_, i) => `${filler(i)}\n`),
+			].join("\n"),
+			"utf-8",
+		);
+	});
+	afterEach(cleanupTmpDir);
+
+	test("setEntryPinned adds and removes the tag", () => {
+		expect(setEntryPinned("Deploy steps", true)).toBe("Deploy steps\n#pinned");
+		expect(setEntryPinned("Deploy steps #pinned", true)).toBe("Deploy steps #pinned");
+		expect(setEntryPinned("Deploy steps\n#pinned", false)).toBe("Deploy steps");
+		expect(setEntryPinned("#decision #pinned Use tabs", false)).toBe("#decision Use tabs");
+		expect(setEntryPinned("see #pinned-notes", false)).toBe("see #pinned-notes");
+	});
+
+	test("a pinned entry survives truncation in its own top section", async () => {
+		expect(buildMemoryContext()).not.toContain("make ship");
+		const result = await tools.memory_pin.execute("c", { action: "pin", id: "aaaaaa" }, null, null, createMockCtx());
+		expect(result.content[0].text).toBe("Pinned entry aaaaaa in MEMORY.md.");
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toContain("after tagging.\n#pinned\n");
+
+		const context = buildMemoryContext();
+		expect(context.indexOf("## Pinned memories")).toBe("# Memory\n\n".length);
+		expect(context).toContain("make ship");
+		// Not repeated in the MEMORY.md section.
+		expect(context.split("make ship")).toHaveLength(2);
+	});
+
+	test("#pinned written with memory_write is picked up, also from daily logs", async () => {
+		await tools.memory_write.execute(
+			"c",
+			{ target: "daily", content: "Team convention: squash merges #pinned" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		const context = buildMemoryContext();
+		expect(context).toMatch(/## Pinned memories\n\n<!-- .* -->\nTeam convention: squash merges #pinned/);
+		expect(context).not.toContain("## Daily log");
+	});
+
+	test("pinned entries have their own budget", () => {
+		_setConfigForTest({ context: { pinned: { share: 0 } } });
+		fs.appendFileSync(memoryFile(), "\n<!-- 2026-01-09 10:00:00 [s1] id:pppppp -->\nPinned but no room #pinned\n");
+		expect(buildMemoryContext()).not.toContain("## Pinned memories");
+	});
+
+	test("unpin, already-pinned and list", async () => {
+		const ctx = createMockCtx();
+		await tools.memory_pin.execute("c", { action: "pin", match: "make ship" }, null, null, ctx);
+		const again = await tools.memory_pin.execute("c", { action: "pin", id: "aaaaaa" }, null, null, ctx);
+		expect(again.content[0].text).toContain("already pinned");
+		expect(again.details.changed).toBe(false);
+
+		const list = await tools.memory_pin.execute("c", { action: "list" }, null, null, ctx);
+		expect(list.content[0].text).toBe("Pinned memories:\n- aaaaaa — MEMORY.md: Deploy with `make ship ENV=prod`");
+		expect(list.details.count).toBe(1);
+
+		await tools.memory_pin.execute("c", { action: "unpin", id: "aaaaaa" }, null, null, ctx);
+		expect(fs.readFileSync(memoryFile(), "utf-8")).not.toContain("#pinned");
+		const empty = await tools.memory_pin.execute("c", { action: "list" }, null, null, ctx);
+		expect(empty.content[0].text).toBe("No pinned memories.");
+	});
+
+	test("/memory-pins lists and unpins", async () => {
+		const ctx = createMockCtx();
+		await tools.memory_pin.execute("c", { action: "pin", id: "aaaaaa" }, null, null, ctx);
+		await commands["memory-pins"].handler("", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("- aaaaaa — MEMORY.md"), "info");
+
+		await commands["memory-pins"].handler("unpin zzzzzz", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith("No pinned entry with id zzzzzz.", "warning");
+
+		await commands["memory-pins"].handler("unpin aaaaaa", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith("Unpinned entry aaaaaa in MEMORY.md.", "info");
+		expect(buildMemoryContext()).not.toContain("## Pinned memories");
+	});
+});
+
+// ==========================================================================
+// 14. History: snapshots, memory_restore, /memory-undo
+// ==========================================================================
+
+describe("memory history", () => {
+	let tools: Record<string, any>;
+	let commands: Record<string, any>;
+	const memoryFile = () => path.join(tmpDir, "MEMORY.md");
+	const write = (content: string, mode: "append" | "overwrite" = "append") =>
+		tools.memory_write.execute("c", { target: "long_term", content, mode }, null, null, createMockCtx());
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		const mockPi = createMockPi();
+		tools = mockPi.tools;
+		commands = mockPi.commands;
+		registerExtension(mockPi.pi as any);
+	});
+	afterEach(cleanupTmpDir);
+
+	test("writeMemoryFile snapshots previous contents, not new files or no-op writes", async () => {
+		await writeMemoryFile(memoryFile(), "v1", "test");
+		expect(listSnapshots(memoryFile())).toHaveLength(0);
+		await writeMemoryFile(memoryFile(), "v2", "test");
+		await writeMemoryFile(memoryFile(), "v2", "test");
+		const snapshots = listSnapshots(memoryFile());
+		expect(snapshots).toHaveLength(1);
+		expect(snapshots[0].reason).toBe("test");
+		expect(snapshots[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+		expect(fs.readFileSync(snapshots[0].path, "utf-8")).toBe("v1");
+		expect(historyDirFor(memoryFile())).toBe(path.join(tmpDir, ".history", "MEMORY.md"));
+		expect(historyDirFor(dailyPath("2026-01-01"))).toBe(path.join(tmpDir, ".history", "daily__2026-01-01.md"));
+	});
+
+	test("retention keeps the newest history.maxSnapshots per file", () => {
+		_setConfigForTest({ history: { maxSnapshots: 3 } });
+		for (let i = 0; i < 6; i++) snapshotFile(memoryFile(), `v${i}`, "test");
+		const snapshots = listSnapshots(memoryFile());
+		expect(snapshots.map((snap) => fs.readFileSync(snap.path, "utf-8"))).toEqual(["v5", "v4", "v3"]);
+		expect(findSnapshot(memoryFile(), "2")?.id).toBe(snapshots[1].id);
+		expect(findSnapshot(memoryFile(), snapshots[2].id)?.id).toBe(snapshots[2].id);
+	});
+
+	test("maxSnapshots 0 disables history", async () => {
+		_setConfigForTest({ history: { maxSnapshots: 0 } });
+		await writeMemoryFile(memoryFile(), "v1", "test");
+		await writeMemoryFile(memoryFile(), "v2", "test");
+		expect(fs.existsSync(path.join(tmpDir, ".history"))).toBe(false);
+	});
+
+	test("memory_restore lists, diffs and rolls back a bad overwrite", async () => {
+		await write("Important fact");
+		await write("Oops", "overwrite");
+
+		const list = await tools.memory_restore.execute(
+			"c",
+			{ action: "list", target: "long_term" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(list.content[0].text).toContain("1. ");
+		expect(list.content[0].text).toContain("before memory_write-overwrite");
+		expect(list.details.snapshots).toHaveLength(1);
+
+		const diff = await tools.memory_restore.execute(
+			"c",
+			{ action: "diff", target: "long_term" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(diff.content[0].text).toContain("+ Important fact");
+		expect(diff.content[0].text).toContain("- Oops");
+
+		const restored = await tools.memory_restore.execute(
+			"c",
+			{ action: "restore", target: "long_term" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(restored.isError).toBeUndefined();
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toContain("Important fact");
+		expect(fs.readFileSync(memoryFile(), "utf-8")).not.toContain("Oops");
+		// The overwritten state was snapshotted too, so the restore itself can be undone.
+		expect(listSnapshots(memoryFile())[0].reason).toBe("memory_restore");
+	});
+
+	test("scratchpad clear_done can be undone", async () => {
+		const ctx = createMockCtx();
+		await tools.scratchpad.execute("c", { action: "add", text: "Keep me" }, null, null, ctx);
+		await tools.scratchpad.execute("c", { action: "done", text: "Keep me" }, null, null, ctx);
+		await tools.scratchpad.execute("c", { action: "clear_done" }, null, null, ctx);
+		expect(fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8")).not.toContain("Keep me");
+
+		await tools.memory_restore.execute("c", { action: "restore", target: "scratchpad" }, null, null, ctx);
+		expect(fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8")).toContain("- [x] Keep me");
+	});
+
+	test("memory_restore works on named scratchpad lists", async () => {
+		const ctx = createMockCtx();
+		const file = path.join(tmpDir, "scratchpads", "release.md");
+		await tools.scratchpad.execute("c", { action: "create_list", list: "release" }, null, null, ctx);
+		await tools.scratchpad.execute("c", { action: "add", text: "Tag v2", list: "release" }, null, null, ctx);
+		await tools.scratchpad.execute("c", { action: "remove", text: "Tag v2", list: "release" }, null, null, ctx);
+
+		const list = await tools.memory_restore.execute(
+			"c",
+			{ action: "list", target: "scratchpad", list: "release" },
+			null,
+			null,
+			ctx,
+		);
+		expect(list.content[0].text).toContain("Snapshots of scratchpads/release.md");
+		await tools.memory_restore.execute(
+			"c",
+			{ action: "restore", target: "scratchpad", list: "release" },
+			null,
+			null,
+			ctx,
+		);
+		expect(fs.readFileSync(file, "utf-8")).toContain("- [ ] Tag v2");
+		expect(fs.existsSync(path.join(tmpDir, "SCRATCHPAD.md"))).toBe(false);
+	});
+
+	test("memory_restore reports missing snapshots", async () => {
+		const result = await tools.memory_restore.execute(
+			"c",
+			{ action: "restore", target: "daily", date: "2026-01-01" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("No snapshots of daily/2026-01-01.md");
+	});
+
+	test("/memory-undo rolls back the latest write after confirmation", async () => {
+		await write("Keep");
+		await write("Mistake");
+		const ctx = { ...createMockCtx(), ui: { notify: mock(() => {}), confirm: mock(async () => false) } };
+
+		await commands["memory-undo"].handler("", ctx);
+		expect(ctx.ui.confirm).toHaveBeenCalledTimes(1);
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toContain("Mistake");
+
+		ctx.ui.confirm = mock(async () => true);
+		await commands["memory-undo"].handler("", ctx);
+		expect(fs.readFileSync(memoryFile(), "utf-8")).not.toContain("Mistake");
+		expect((ctx.ui.notify as any).mock.calls.at(-1)[0]).toContain("Undid memory_write on MEMORY.md");
+	});
+
+	test("/memory-undo list, diff and restore subcommands", async () => {
+		await write("First");
+		await write("Second");
+		const ctx = createMockCtx();
+		const lastMessage = () => (ctx.ui.notify as any).mock.calls.at(-1)[0] as string;
+
+		await commands["memory-undo"].handler("list", ctx);
+		expect(lastMessage()).toContain("MEMORY.md: 1 snapshot(s)");
+		await commands["memory-undo"].handler("list MEMORY.md", ctx);
+		expect(lastMessage()).toContain("Snapshots of MEMORY.md");
+		await commands["memory-undo"].handler("diff MEMORY.md 1", ctx);
+		expect(lastMessage()).toContain("- Second");
+		await commands["memory-undo"].handler("restore MEMORY.md 1", ctx);
+		expect(fs.readFileSync(memoryFile(), "utf-8")).not.toContain("Second");
+		await commands["memory-undo"].handler("restore NOTES.md", ctx);
+		expect(lastMessage()).toContain("Unknown memory file");
+	});
+});
+
+// ==========================================================================
+// 15. File locking and atomic writes
+// ==========================================================================
+
+describe("file locking", () => {
+	const memoryFile = () => path.join(tmpDir, "MEMORY.md");
+	const leftovers = (dir: string) =>
+		fs.readdirSync(dir, { recursive: true }).filter((f) => /\.(lock|tmp)$/.test(String(f)));
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+	});
+	afterEach(cleanupTmpDir);
+
+	test("concurrent sessions don't lose each other's entries", async () => {
+		const writers = ["writer-a", "writer-b", "writer-c", "writer-d"];
+		const perWriter = 15;
+		const runWriter = (sessionId: string) =>
+			new Promise<number | null>((resolve) => {
+				const child = spawn(
+					process.execPath,
+					[path.join(import.meta.dir, "concurrent-writer.ts"), tmpDir, sessionId, String(perWriter)],
+					{ env: { ...process.env, PI_MEMORY_QMD_UPDATE: "off" }, stdio: "ignore" },
+				);
+				child.on("exit", resolve);
+			});
+
+		const codes = await Promise.all(writers.map(runWriter));
+		expect(codes).toEqual(writers.map(() => 0));
+
+		const entries = parseMemoryEntries(fs.readFileSync(dailyPath(todayStr()), "utf-8"));
+		expect(entries).toHaveLength(writers.length * perWriter);
+		expect(new Set(entries.map((e) => e.id)).size).toBe(entries.length);
+		const items = parseScratchpad(fs.readFileSync(path.join(tmpDir, "SCRATCHPAD.md"), "utf-8"));
+		expect(items).toHaveLength(writers.length * perWriter);
+		for (const writer of writers) {
+			expect(entries.filter((e) => e.body.startsWith(writer))).toHaveLength(perWriter);
+			expect(items.filter((i) => i.text.startsWith(writer))).toHaveLength(perWriter);
+		}
+		expect(leftovers(tmpDir)).toEqual([]);
+	}, 60_000);
+
+	test("withFileLock is re-entrant and released on error", async () => {
+		const lock = `${memoryFile()}.lock`;
+		await expect(
+			withFileLock(memoryFile(), async () => {
+				expect(fs.readFileSync(lock, "utf-8").split("\n")[0]).toBe(String(process.pid));
+				await withFileLock(memoryFile(), () => writeMemoryFile(memoryFile(), "nested", "test"));
+				expect(fs.existsSync(lock)).toBe(true);
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+		expect(fs.existsSync(lock)).toBe(false);
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toBe("nested");
+	});
+
+	test("waiting for a lock doesn't block the event loop, and waiters take turns", async () => {
+		const order: string[] = [];
+		let release = () => {};
+		const first = withFileLock(memoryFile(), async () => {
+			order.push("first");
+			await new Promise<void>((resolve) => {
+				release = resolve;
+			});
+		});
+		const second = withFileLock(memoryFile(), () => order.push("second"));
+		// The second caller is waiting; timers still fire meanwhile.
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(order).toEqual(["first"]);
+		release();
+		await Promise.all([first, second]);
+		expect(order).toEqual(["first", "second"]);
+		expect(fs.existsSync(`${memoryFile()}.lock`)).toBe(false);
+	});
+
+	test("a lock left behind by a dead process is taken over", async () => {
+		// Far above any real pid (pid_max is at most 2^22 on Linux).
+		fs.writeFileSync(`${memoryFile()}.lock`, `99999999\n${os.hostname()}\n`);
+		await updateMemoryFile(memoryFile(), "test", (current) => `${current}recovered`);
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toBe("recovered");
+		expect(leftovers(tmpDir)).toEqual([]);
+		expect(fs.readdirSync(tmpDir).filter((f) => f.endsWith(".stale"))).toEqual([]);
+	});
+
+	test("an old lock whose local holder is alive is kept", async () => {
+		const lock = `${memoryFile()}.lock`;
+		fs.writeFileSync(lock, `${process.pid}\n${os.hostname()}\nabc\n`);
+		const old = new Date(Date.now() - 60_000);
+		fs.utimesSync(lock, old, old);
+		let entered = false;
+		const waiting = withFileLock(memoryFile(), () => {
+			entered = true;
+		});
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(entered).toBe(false);
+		expect(fs.readFileSync(lock, "utf-8")).toBe(`${process.pid}\n${os.hostname()}\nabc\n`);
+		fs.rmSync(lock);
+		await waiting;
+		expect(entered).toBe(true);
+		expect(fs.readdirSync(tmpDir).filter((f) => f.endsWith(".stale"))).toEqual([]);
+	});
+
+	test("a lock from another host is taken over only once it is old", async () => {
+		const lock = `${memoryFile()}.lock`;
+		// A pid that is alive here says nothing about the other host.
+		fs.writeFileSync(lock, `${process.pid}\nsome-other-host\nabc\n`);
+		let entered = false;
+		const waiting = withFileLock(memoryFile(), () => {
+			entered = true;
+		});
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(entered).toBe(false);
+		const old = new Date(Date.now() - 60_000);
+		fs.utimesSync(lock, old, old);
+		await waiting;
+		expect(entered).toBe(true);
+		expect(leftovers(tmpDir)).toEqual([]);
+	});
+
+	test("waiters racing for the same stale lock take it one at a time", async () => {
+		fs.writeFileSync(`${memoryFile()}.lock`, `99999999\n${os.hostname()}\n`);
+		let inside = 0;
+		let overlapped = false;
+		await Promise.all(
+			Array.from({ length: 5 }, () =>
+				withFileLock(memoryFile(), async () => {
+					inside++;
+					overlapped ||= inside > 1;
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					inside--;
+				}),
+			),
+		);
+		expect(overlapped).toBe(false);
+		expect(leftovers(tmpDir)).toEqual([]);
+	});
+
+	test("updateMemoryFile leaves the file alone when the update returns null", async () => {
+		await writeMemoryFile(memoryFile(), "original", "test");
+		expect(await updateMemoryFile(memoryFile(), "test", () => null)).toBe("original");
+		expect(listSnapshots(memoryFile())).toHaveLength(0);
+	});
+
+	test("writeFileAtomic replaces the file without leaving temp files", () => {
+		writeFileAtomic(memoryFile(), "v1");
+		writeFileAtomic(memoryFile(), "v2");
+		expect(fs.readFileSync(memoryFile(), "utf-8")).toBe("v2");
+		expect(leftovers(tmpDir)).toEqual([]);
+	});
+});
+
+// ==========================================================================
+// 16. Git-backed memory dir, memory_history, /memory-sync
+// ==========================================================================
+
+describe("git mode", () => {
+	let tools: Record<string, any>;
+	const git = (...args: string[]) => execFileSync("git", args, { cwd: tmpDir, encoding: "utf-8" });
+	const append = (content: string, target: "long_term" | "daily" = "long_term") =>
+		tools.memory_write.execute("c", { target, content }, null, null, createMockCtx());
+
+	beforeEach(() => {
+		setupTmpDir();
+		ensureDirs();
+		_setConfigForTest({ git: { enabled: true } });
+		const mockPi = createMockPi();
+		tools = mockPi.tools;
+		registerExtension(mockPi.pi as any);
+	});
+	afterEach(() => {
+		_resetExecFileForTest();
+		cleanupTmpDir();
+	});
+
+	test("formatCommitMessage records tool, action, target, session and entry", () => {
+		const message = formatCommitMessage(
+			{ tool: "memory_write", action: "append", sessionId: "abcdef12", entryId: "a1b2c3" },
+			[path.join(tmpDir, "daily", "2026-01-01.md")],
+		);
+		expect(message).toBe(
+			[
+				"memory_write append: daily/2026-01-01.md [abcdef12]",
+				"",
+				"Tool: memory_write",
+				"Action: append",
+				"Target: daily/2026-01-01.md",
+				"Session: abcdef12",
+				"Entry: a1b2c3",
+			].join("\n"),
+		);
+	});
+
+	test("every write is a commit with structured trailers", async () => {
+		const written = await append("Use tabs");
+		await tools.scratchpad.execute("c", { action: "add", text: "Fix tests" }, null, null, createMockCtx());
+
+		const subjects = git("log", "--format=%s").trim().split("\n");
+		expect(subjects).toEqual([
+			"scratchpad add: SCRATCHPAD.md [abcdef12]",
+			"memory_write append: MEMORY.md [abcdef12]",
+			"pi-memory: initial snapshot",
+		]);
+		const trailers = git("log", "-1", "--skip=1", "--format=%(trailers)");
+		expect(trailers).toContain("Tool: memory_write");
+		expect(trailers).toContain("Target: MEMORY.md");
+		expect(trailers).toContain("Session: abcdef12");
+		expect(trailers).toContain(`Entry: ${written.details.id}`);
+		// Snapshots are not versioned; the repo is the history now.
+		expect(git("ls-files")).not.toContain(".history");
+		expect(git("status", "--porcelain").trim()).toBe("");
+	});
+
+	test("memory_history shows the log for a file and for a single entry", async () => {
+		const first = await append("Deploy on Fridays");
+		await append("Prefer small PRs");
+		await tools.memory_edit.execute(
+			"c",
+			{ id: first.details.id, content: "Never deploy on Fridays" },
+			null,
+			null,
+			createMockCtx(),
+		);
+		await append("Unrelated", "daily");
+
+		const fileLog = await tools.memory_history.execute("c", { target: "long_term" }, null, null, createMockCtx());
+		expect(fileLog.isError).toBeUndefined();
+		expect(fileLog.content[0].text).toContain("History of MEMORY.md");
+		expect(fileLog.content[0].text.match(/memory_(write append|edit):/g)).toHaveLength(3);
+		expect(fileLog.content[0].text).not.toContain("daily/");
+
+		const entryLog = await tools.memory_history.execute(
+			"c",
+			{ id: first.details.id, diff: true },
+			null,
+			null,
+			createMockCtx(),
+		);
+		expect(entryLog.content[0].text).toContain(`History of entry ${first.details.id}`);
+		expect(entryLog.content[0].text).toContain("memory_edit");
+		expect(entryLog.content[0].text).toContain("+Never deploy on Fridays");
+		expect(entryLog.content[0].text).not.toContain("Prefer small PRs");
+
+		await tools.memory_delete.execute("c", { id: first.details.id }, null, null, createMockCtx());
+		const deletedLog = await tools.memory_history.execute("c", { id: first.details.id }, null, null, createMockCtx());
+		expect(deletedLog.content[0].text).toContain("memory_delete");
+		expect(deletedLog.content[0].text).toContain("memory_write append");
+	});
+
+	test("memory_history explains when git mode is off", async () => {
+		_setConfigForTest({ git: { enabled: false } });
+		await append("Not committed");
+		expect(fs.existsSync(path.join(tmpDir, ".git"))).toBe(false);
+		const result = await tools.memory_history.execute("c", {}, null, null, createMockCtx());
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("Git history is off");
+	});
+
+	test("writes still succeed without a git binary", async () => {
+		_setExecFileForTest(((...args: any[]) => args[args.length - 1](new Error("spawn git ENOENT"), "", "")) as any);
+		const result = await append("Still saved");
+		expect(result.isError).toBeUndefined();
+		expect(fs.readFileSync(path.join(tmpDir, "MEMORY.md"), "utf-8")).toContain("Still saved");
+		expect(fs.existsSync(path.join(tmpDir, ".git"))).toBe(false);
+
+		const history = await tools.memory_history.execute("c", {}, null, null, createMockCtx());
+		expect(history.isError).toBe(true);
+		expect(history.content[0].text).toContain("git not found");
+	});
+
+	test("project memory is left to the project's own repo", async () => {
+		const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-project-"));
+		try {
+			_setProjectRoot(projectRoot);
+			await append("Global fact");
+			await tools.memory_write.execute(
+				"c",
+				{ target: "long_term", content: "Project fact", scope: "project" },
+				null,
+				null,
+				createMockCtx(),
+			);
+			expect(git("log", "--format=%s")).not.toContain("project");
+			expect(fs.existsSync(path.join(projectRoot, ".pi-memory", ".git"))).toBe(false);
+		} finally {
+			fs.rmSync(projectRoot, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("memory sync", () => {
+	let remote: string;
+	let machineB: string;
+	let tools: Record<string, any>;
+	let commands: Record<string, any>;
+	let hooks: Record<string, (...args: unknown[]) => unknown>;
+	const today = todayStr();
+	const git = (dir: string, ...args: string[]) => execFileSync("git", args, { cwd: dir, encoding: "utf-8" });
+	const daily = (dir: string) => fs.readFileSync(path.join(dir, "daily", `${today}.md`), "utf-8");
+	const onMachine = (dir: string) => {
+		_setBaseDir(dir);
+		ensureDirs();
+		_setConfigForTest({ git: { enabled: true, remote } });
+	};
+	const log = (content: string, sessionId: string) =>
+		tools.memory_write.execute("c", { target: "daily", content }, null, null, createMockCtx(sessionId));
+
+	beforeEach(() => {
+		setupTmpDir();
+		remote = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-remote-"));
+		machineB = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-b-"));
+		execFileSync("git", ["init", "-q", "--bare", remote]);
+		onMachine(tmpDir);
+		const mockPi = createMockPi();
+		tools = mockPi.tools;
+		commands = mockPi.commands;
+		hooks = mockPi.hooks;
+		registerExtension(mockPi.pi as any);
+	});
+	afterEach(() => {
+		cleanupTmpDir();
+		fs.rmSync(remote, { recursive: true, force: true });
+		fs.rmSync(machineB, { recursive: true, force: true });
+	});
+
+	test("mergeMemoryEntries merges appends and edits from both sides in time order", () => {
+		const base = `# ${today}\n\n${formatEntryMeta(`${today} 09:00:00`, "aaaa", "a00001")}\nStandup notes`;
+		const ours = `${base}\n\n${formatEntryMeta(`${today} 11:00:00`, "aaaa", "a00003")}\nLunch decision\n`;
+		const theirs = `${base.replace("Standup notes", "Standup notes (edited)")}\n\n${formatEntryMeta(`${today} 10:00:00`, "bbbb", "b00002")}\nRemote finding\n`;
+
+		const { content, conflicts } = mergeMemoryEntries(base, ours, theirs, { chronological: true });
+		expect(conflicts).toEqual([]);
+		expect(content).not.toContain("<<<<<<<");
+		expect(parseMemoryEntries(content).map((e) => e.id)).toEqual([null, "a00001", "b00002", "a00003"]);
+		expect(content).toContain("Standup notes (edited)");
+		expect(content.endsWith("Lunch decision\n")).toBe(true);
+	});
+
+	test("mergeMemoryEntries keeps the local version when both sides edit an entry", () => {
+		const meta = formatEntryMeta(`${today} 09:00:00`, "aaaa", "a00001");
+		const deleted = formatEntryMeta(`${today} 09:30:00`, "aaaa", "a00002");
+		const base = `${meta}\nOriginal\n\n${deleted}\nObsolete`;
+		const { content, conflicts } = mergeMemoryEntries(
+			base,
+			`${meta}\nLocal edit`,
+			`${meta}\nRemote edit\n\n${deleted}\nObsolete`,
+		);
+		expect(content).toBe(`${meta}\nLocal edit`);
+		expect(conflicts).toEqual(["entry a00001: changed on both sides; kept the local version"]);
+	});
+
+	test("mergeScratchpadItems combines adds, completions and removals", () => {
+		const item = (done: boolean, text: string, ts: string) => ({ done, text, meta: `<!-- ${ts} [aaaa] -->` });
+		const base = serializeScratchpad([item(false, "Fix flaky test", "1"), item(true, "Old chore", "2")]);
+		const ours = serializeScratchpad([item(true, "Fix flaky test", "1"), item(true, "Old chore", "2")]);
+		const theirs = serializeScratchpad([item(false, "Fix flaky test", "1"), item(false, "Review PR", "3")]);
+
+		const { content, conflicts } = mergeScratchpadItems(base, ours, theirs);
+		expect(conflicts).toEqual([]);
+		expect(parseScratchpad(content).map((i) => [i.text, i.done])).toEqual([
+			["Fix flaky test", true],
+			["Review PR", false],
+		]);
+	});
+
+	test("mergeScratchpadItems follows items by ID across edits", () => {
+		const item = (text: string, done = false) => ({ id: "a1b2c3", done, text, meta: "<!-- 1 [aaaa] -->" });
+		const base = serializeScratchpad([item("Fix flaky test")]);
+		const ours = serializeScratchpad([item("Fix flaky test in CI")]);
+		const theirs = serializeScratchpad([item("Fix flaky test", true)]);
+
+		const { content, conflicts } = mergeScratchpadItems(base, ours, theirs);
+		expect(conflicts).toEqual(["item a1b2c3: changed on both sides; kept the local version"]);
+		expect(parseScratchpad(content).map((i) => [i.id, i.text, i.done])).toEqual([
+			["a1b2c3", "Fix flaky test in CI", false],
+		]);
+	});
+
+	test("mergeScratchpadItems keeps the local file's headings and notes", () => {
+		const base = "# Todo\n\n## Now\n<!-- 1 [aaaa] id:a00001 -->\n- [ ] Ship it\n\n## Notes\nKeep this.\n";
+		const ours = base.replace("- [ ] Ship it", "- [x] Ship it");
+		const theirs = base.replace("- [ ] Ship it\n", "- [ ] Ship it\n<!-- 2 [bbbb] id:b00002 -->\n- [ ] Announce it\n");
+
+		const { content, conflicts } = mergeScratchpadItems(base, ours, theirs);
+		expect(conflicts).toEqual([]);
+		expect(content).toBe(
+			"# Todo\n\n## Now\n<!-- 1 [aaaa] id:a00001 -->\n- [x] Ship it\n<!-- 2 [bbbb] id:b00002 -->\n- [ ] Announce it\n\n## Notes\nKeep this.\n",
+		);
+	});
+
+	test("two machines with independent histories merge without conflict markers", async () => {
+		await log("Laptop note", "laptop01");
+		await tools.scratchpad.execute("c", { action: "add", text: "Laptop todo" }, null, null, createMockCtx());
+		const first = await syncMemory();
+		expect(first.pushed).toBe(true);
+		expect(first.pulled).toEqual([]);
+
+		onMachine(machineB);
+		await log("Devbox note", "devbox01");
+		await tools.scratchpad.execute("c", { action: "add", text: "Devbox todo" }, null, null, createMockCtx());
+		const second = await syncMemory();
+		expect(second.merged).toEqual(expect.arrayContaining([`daily/${today}.md`, "SCRATCHPAD.md"]));
+		expect(second.conflicts).toEqual([]);
+		expect(second.pushed).toBe(true);
+		expect(daily(machineB)).toContain("Laptop note");
+		expect(daily(machineB)).toContain("Devbox note");
+		expect(daily(machineB)).not.toMatch(/^(<<<<<<<|=======|>>>>>>>)/m);
+		expect(
+			parseScratchpad(fs.readFileSync(path.join(machineB, "SCRATCHPAD.md"), "utf-8")).map((i) => i.text),
+		).toEqual(expect.arrayContaining(["Laptop todo", "Devbox todo"]));
+		expect(git(machineB, "status", "--porcelain").trim()).toBe("");
+
+		onMachine(tmpDir);
+		const third = await syncMemory();
+		expect(third.pulled).toContain(`daily/${today}.md`);
+		expect(third.pushed).toBe(false);
+		expect(daily(tmpDir)).toBe(daily(machineB));
+	});
+
+	test("entries appended on both machines after a shared sync interleave by time", async () => {
+		await log("Shared start", "laptop01");
+		await syncMemory();
+		onMachine(machineB);
+		await syncMemory();
+		expect(daily(machineB)).toContain("Shared start");
+
+		await log("Devbox later", "devbox01");
+		await syncMemory();
+		onMachine(tmpDir);
+		await log("Laptop later", "laptop01");
+		const result = await syncMemory();
+		expect(result.merged).toEqual([`daily/${today}.md`]);
+		const bodies = parseMemoryEntries(daily(tmpDir)).map((e) => e.body);
+		expect(bodies).toEqual(["Shared start", "Devbox later", "Laptop later"]);
+		expect(git(tmpDir, "log", "-1", "--format=%s").trim()).toBe("memory_sync merge: origin/main");
+	});
+
+	test("/memory-sync reports a missing remote", async () => {
+		_setConfigForTest({ git: { enabled: true } });
+		const ctx = createMockCtx();
+		await commands["memory-sync"].handler("", ctx);
+		const [message, type] = (ctx.ui.notify as any).mock.calls.at(-1);
+		expect(type).toBe("error");
+		expect(message).toContain("No sync remote configured");
+	});
+
+	test("git.autoSync pulls at session start", async () => {
+		await log("From the laptop", "laptop01");
+		await syncMemory();
+
+		onMachine(machineB);
+		fs.writeFileSync(
+			path.join(machineB, "config.json"),
+			JSON.stringify({ git: { enabled: true, remote, autoSync: true } }),
+			"utf-8",
+		);
+		await hooks.session_start({}, { ...createMockCtx(), hasUI: false });
+		expect(daily(machineB)).toContain("From the laptop");
+	});
+});
+
+// ==========================================================================
+// 17. Extension registration
 // ==========================================================================
 
 describe("extension registration", () => {
-	test("registers all 4 tools", () => {
+	test("registers all 9 tools", () => {
 		const mockPi = createMockPi();
 		registerExtension(mockPi.pi as any);
-		expect(Object.keys(mockPi.tools)).toHaveLength(4);
+		expect(Object.keys(mockPi.tools)).toHaveLength(9);
+		expect(mockPi.tools.memory_pin).toBeDefined();
+		expect(mockPi.tools.memory_history).toBeDefined();
+		expect(mockPi.tools.memory_restore).toBeDefined();
 		expect(mockPi.tools.memory_write).toBeDefined();
 		expect(mockPi.tools.memory_read).toBeDefined();
+		expect(mockPi.tools.memory_edit).toBeDefined();
+		expect(mockPi.tools.memory_delete).toBeDefined();
 		expect(mockPi.tools.scratchpad).toBeDefined();
 		expect(mockPi.tools.memory_search).toBeDefined();
 	});
@@ -1091,7 +4076,16 @@ describe("extension registration", () => {
 	test("tools have labels and descriptions", () => {
 		const mockPi = createMockPi();
 		registerExtension(mockPi.pi as any);
-		for (const name of ["memory_write", "memory_read", "scratchpad", "memory_search"]) {
+		for (const name of [
+			"memory_write",
+			"memory_read",
+			"memory_edit",
+			"memory_delete",
+			"memory_restore",
+			"memory_history",
+			"scratchpad",
+			"memory_search",
+		]) {
 			expect(mockPi.tools[name].label).toBeTruthy();
 			expect(mockPi.tools[name].description).toBeTruthy();
 		}
@@ -80,6 +80,7 @@ function createMockPi() {
 		registerTool(config: any) {
 			tools[config.name] = config;
 		},
+		registerCommand() {},
 	};
 }
 